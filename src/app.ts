@@ -4,11 +4,16 @@ import Fastify from "fastify"
 import cookie from "@fastify/cookie"
 import cors from "@fastify/cors"
 import env from "./config/env"
+import { mailer } from "./lib/mailer"
+import { csrfProtection, isAllowedOrigin } from "./plugins/csrf"
 import authRoutes from "./modules/auth/routes"
 import academicsRoutes from "./modules/academics/routes"
 import essaysRoutes from "./modules/essays/routes"
+import reviewsRoutes from "./modules/reviews/routes"
 import tasksRoutes from "./modules/tasks/routes"
 import schedulesRoutes from "./modules/schedules/routes"
+import linksRoutes from "./modules/links/routes"
+import { AccountService } from "./modules/auth/account"
 
 
 const app = Fastify({
@@ -18,13 +23,17 @@ const app = Fastify({
 
 // CORS so browser allows requests from the React app (different origin) and sends OPTIONS preflight
 app.register(cors, {
-    origin: true, // reflect request origin (e.g. http://localhost:5173)
+    // only allowlisted origins (CORS_ORIGINS, e.g. http://localhost:5173); no Origin means not a browser
+    origin: (origin, cb) => cb(null, !origin || isAllowedOrigin(origin)),
     credentials: true, // allow cookies (credentials: 'include' on frontend)
 })
 
 // Register cookie plugin
 app.register(cookie)
 
+// CSRF: cookie-authenticated mutations must echo session_token_check in X-CSRF-Token
+app.addHook('onRequest', csrfProtection)
+
 // Register auth routes
 app.register(authRoutes, { prefix: '/api/auth' })
 
@@ -34,15 +43,47 @@ app.register(academicsRoutes, { prefix: '/api/academics' })
 // Register essays routes
 app.register(essaysRoutes, { prefix: '/api/essays' })
 
+// Register essay review routes (shares + comments under /api/essays)
+app.register(reviewsRoutes, { prefix: '/api/essays' })
+
 // Register tasks routes (tasks + goals under /api)
 app.register(tasksRoutes, { prefix: '/api' })
 
 // Register schedules routes
 app.register(schedulesRoutes, { prefix: '/api/schedules' })
 
+// Register student links routes (counselor/parent invites + read-only student views)
+app.register(linksRoutes, { prefix: '/api/links' })
+
+/**
+ * Delete accounts whose deletion grace period is over, on an interval.
+ * Run it on one instance only (ACCOUNT_PURGE_INTERVAL_MINUTES=0 elsewhere).
+ */
+function scheduleAccountPurge() {
+    if (!(env.ACCOUNT_PURGE_INTERVAL_MINUTES > 0)) return
+
+    const timer = setInterval(async () => {
+        try {
+            const { deleted, failed } = await AccountService.purgeDueAccounts()
+            if (deleted) app.log.info(`Deleted ${deleted} account(s) past their deletion grace period`)
+            for (const { userId, error } of failed) {
+                app.log.error({ err: error, userId }, 'Failed to delete account')
+            }
+        } catch (error) {
+            app.log.error(error, 'Account purge failed')
+        }
+    }, env.ACCOUNT_PURGE_INTERVAL_MINUTES * 60 * 1000)
+
+    // Don't keep the process alive just for this, and stop with the server
+    timer.unref()
+    app.addHook('onClose', async () => clearInterval(timer))
+}
+
 // Start server
 const start = async () => {
     try {
+        mailer.assertConfigured()
+        scheduleAccountPurge()
         await app.listen({ 
             port: Number(env.PORT), 
             host: env.HOST 
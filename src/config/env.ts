@@ -6,6 +6,28 @@ const env = {
     SUPABASE_URL: process.env.SUPABASE_URL as string,
     SUPABASE_KEY: process.env.SUPABASE_KEY as string,
     COOKIE_DOMAIN: process.env.COOKIE_DOMAIN as string | undefined,
+    // Frontend origin used to build links in emails
+    APP_URL: process.env.APP_URL || "http://localhost:5173",
+    // Comma-separated origins allowed to make credentialed requests (defaults to APP_URL)
+    CORS_ORIGINS: process.env.CORS_ORIGINS as string | undefined,
+    // Public origin of this API, used for OAuth redirect URIs
+    API_URL: process.env.API_URL || "http://localhost:3000",
+    // Email transport: "smtp", "file" or "console"; must be set explicitly in production
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? "" : "console"),
+    MAIL_FROM: process.env.MAIL_FROM || "Slate <no-reply@localhost>",
+    SMTP_URL: process.env.SMTP_URL as string | undefined,
+    MAIL_OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || ".outbox",
+    // Rate limit store: "memory" (single instance) or "redis"
+    RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || "memory",
+    REDIS_URL: process.env.REDIS_URL as string | undefined,
+    // How often this instance deletes accounts past their grace period; 0 turns the job off here
+    ACCOUNT_PURGE_INTERVAL_MINUTES: Number(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES ?? 60),
+    // Key for secrets encrypted at rest (TOTP seeds); any long random string
+    SECRETS_ENCRYPTION_KEY: process.env.SECRETS_ENCRYPTION_KEY as string | undefined,
+    // OAuth/OIDC providers; a provider is enabled when its client ID is set
+    GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID as string | undefined,
+    GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET as string | undefined,
+    GOOGLE_ISSUER: process.env.GOOGLE_ISSUER || "https://accounts.google.com",
 }
 
 export default env
\ No newline at end of file
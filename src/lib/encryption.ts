@@ -0,0 +1,40 @@
+// symmetric encryption for secrets stored at rest (e.g. TOTP seeds)
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import env from '../config/env'
+
+const VERSION = 'v1'
+
+/**
+ * AES-256 key derived from SECRETS_ENCRYPTION_KEY
+ */
+function getKey(): Buffer {
+    if (!env.SECRETS_ENCRYPTION_KEY) {
+        throw new Error('SECRETS_ENCRYPTION_KEY is not configured')
+    }
+    return createHash('sha256').update(env.SECRETS_ENCRYPTION_KEY).digest()
+}
+
+/**
+ * Encrypt with AES-256-GCM; output is "v1:<iv>:<tag>:<ciphertext>" in base64
+ */
+export function encryptSecret(plaintext: string): string {
+    const iv = randomBytes(12)
+    const cipher = createCipheriv('aes-256-gcm', getKey(), iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+    const tag = cipher.getAuthTag()
+    return [VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+/**
+ * Decrypt a value produced by encryptSecret; throws if it was tampered with
+ */
+export function decryptSecret(payload: string): string {
+    const [version, iv, tag, ciphertext] = payload.split(':')
+    if (version !== VERSION || !iv || !tag || !ciphertext) {
+        throw new Error('Unrecognized encrypted secret')
+    }
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(tag, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8')
+}
@@ -0,0 +1,224 @@
+// sliding-window rate limits and progressive lockouts behind a pluggable store
+
+import { randomBytes } from 'crypto'
+import Redis from 'ioredis'
+import env from '../config/env'
+
+export interface WindowState {
+    count: number   // hits inside the window, including this one
+    oldest: number  // timestamp (ms) of the oldest hit still inside the window
+}
+
+export interface RateLimitStore {
+    /**
+     * Record a hit at `now` and return the window it landed in. Stores keep at
+     * most `limit` hits per key; once full, count comes back as limit + 1.
+     */
+    hit(key: string, now: number, windowMs: number, limit: number): Promise<WindowState>
+    /** Count a failure (kept for ttlMs after the latest one) and return the total */
+    incrementFailures(key: string, ttlMs: number): Promise<number>
+    resetFailures(key: string): Promise<void>
+    /** Locked-until timestamp (ms), or null */
+    getLock(key: string): Promise<number | null>
+    setLock(key: string, until: number): Promise<void>
+}
+
+/**
+ * Single-process store; fine for one API instance and for local dev
+ */
+export class MemoryStore implements RateLimitStore {
+    private hits = new Map<string, number[]>()
+    private failures = new Map<string, { count: number; expiresAt: number }>()
+    private locks = new Map<string, number>()
+
+    constructor() {
+        // Drop idle keys now and then so memory stays bounded
+        setInterval(() => this.cleanup(), 5 * 60 * 1000).unref()
+    }
+
+    async hit(key: string, now: number, windowMs: number, limit: number): Promise<WindowState> {
+        // Hits are in time order, so expired ones are all at the front
+        const recent = this.hits.get(key) ?? []
+        const expired = recent.findIndex((t) => t > now - windowMs)
+        recent.splice(0, expired === -1 ? recent.length : expired)
+
+        // Over the limit: refuse without recording, so a flood can't grow the list
+        if (recent.length >= limit) {
+            this.hits.set(key, recent)
+            return { count: limit + 1, oldest: recent[0]! }
+        }
+
+        recent.push(now)
+        this.hits.set(key, recent)
+        return { count: recent.length, oldest: recent[0]! }
+    }
+
+    async incrementFailures(key: string, ttlMs: number): Promise<number> {
+        const now = Date.now()
+        const current = this.failures.get(key)
+        const count = current && current.expiresAt > now ? current.count + 1 : 1
+        this.failures.set(key, { count, expiresAt: now + ttlMs })
+        return count
+    }
+
+    async resetFailures(key: string): Promise<void> {
+        this.failures.delete(key)
+        this.locks.delete(key)
+    }
+
+    async getLock(key: string): Promise<number | null> {
+        const until = this.locks.get(key)
+        return until && until > Date.now() ? until : null
+    }
+
+    async setLock(key: string, until: number): Promise<void> {
+        this.locks.set(key, until)
+    }
+
+    private cleanup() {
+        const now = Date.now()
+        // Longest window in use is a day; anything older is dead
+        for (const [key, times] of this.hits) {
+            if (!times.length || times[times.length - 1]! < now - 24 * 60 * 60 * 1000) this.hits.delete(key)
+        }
+        for (const [key, entry] of this.failures) {
+            if (entry.expiresAt <= now) this.failures.delete(key)
+        }
+        for (const [key, until] of this.locks) {
+            if (until <= now) this.locks.delete(key)
+        }
+    }
+}
+
+/**
+ * Shared store for several API instances; hits are a sorted set per key
+ */
+export class RedisStore implements RateLimitStore {
+    constructor(private redis: Redis, private prefix = 'rl:') {}
+
+    async hit(key: string, now: number, windowMs: number, limit: number): Promise<WindowState> {
+        const k = `${this.prefix}hits:${key}`
+        const results = await this.redis
+            .multi()
+            .zremrangebyscore(k, 0, now - windowMs)
+            .zadd(k, now, `${now}-${randomBytes(4).toString('hex')}`)
+            .zcard(k)
+            // Keep only the newest `limit` hits so a flood can't grow the set
+            .zremrangebyrank(k, 0, -(limit + 1))
+            .zrange(k, '0', '0', 'WITHSCORES')
+            .pexpire(k, windowMs)
+            .exec()
+
+        const count = Math.min(limit + 1, Number(results?.[2]?.[1] ?? 1))
+        const oldest = (results?.[4]?.[1] as string[] | undefined)?.[1]
+        return { count, oldest: oldest ? Number(oldest) : now }
+    }
+
+    async incrementFailures(key: string, ttlMs: number): Promise<number> {
+        const k = `${this.prefix}failures:${key}`
+        const results = await this.redis.multi().incr(k).pexpire(k, ttlMs).exec()
+        return Number(results?.[0]?.[1] ?? 1)
+    }
+
+    async resetFailures(key: string): Promise<void> {
+        await this.redis.del(`${this.prefix}failures:${key}`, `${this.prefix}lock:${key}`)
+    }
+
+    async getLock(key: string): Promise<number | null> {
+        const until = Number(await this.redis.get(`${this.prefix}lock:${key}`))
+        return until > Date.now() ? until : null
+    }
+
+    async setLock(key: string, until: number): Promise<void> {
+        await this.redis.set(`${this.prefix}lock:${key}`, String(until), 'PX', Math.max(1, until - Date.now()))
+    }
+}
+
+function createStore(): RateLimitStore {
+    switch (env.RATE_LIMIT_STORE) {
+        case 'redis':
+            if (!env.REDIS_URL) {
+                throw new Error('REDIS_URL is required when RATE_LIMIT_STORE=redis')
+            }
+            return new RedisStore(new Redis(env.REDIS_URL))
+        case 'memory':
+            return new MemoryStore()
+        default:
+            throw new Error(`Unknown RATE_LIMIT_STORE: ${env.RATE_LIMIT_STORE}`)
+    }
+}
+
+export interface RateLimitResult {
+    allowed: boolean
+    limit: number
+    remaining: number
+    resetMs: number // until the oldest hit leaves the window
+}
+
+export interface LockoutPolicy {
+    freeFailures: number  // failures allowed before the first lock
+    baseLockMs: number    // first lock; doubles with each further failure
+    maxLockMs: number
+    memoryMs: number      // failures are forgotten after this long without another
+}
+
+class Limiter {
+    private store: RateLimitStore | null = null
+
+    /**
+     * Swap the store, e.g. for a test double
+     */
+    setStore(store: RateLimitStore) {
+        this.store = store
+    }
+
+    private getStore(): RateLimitStore {
+        if (!this.store) {
+            this.store = createStore()
+        }
+        return this.store
+    }
+
+    /**
+     * Count a hit against a sliding window of `limit` hits per `windowMs`
+     */
+    async consume(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+        const now = Date.now()
+        const { count, oldest } = await this.getStore().hit(key, now, windowMs, limit)
+        return {
+            allowed: count <= limit,
+            limit,
+            remaining: Math.max(0, limit - count),
+            resetMs: Math.max(0, oldest + windowMs - now)
+        }
+    }
+
+    /**
+     * Milliseconds left on a lockout, or 0 if not locked
+     */
+    async lockedFor(key: string): Promise<number> {
+        const until = await this.getStore().getLock(key)
+        return until ? until - Date.now() : 0
+    }
+
+    /**
+     * Record a failure; past the free ones, lock for an exponentially growing time
+     * Returns the lock length in ms (0 if not locked)
+     */
+    async recordFailure(key: string, policy: LockoutPolicy): Promise<number> {
+        const store = this.getStore()
+        const failures = await store.incrementFailures(key, policy.memoryMs)
+        if (failures < policy.freeFailures) {
+            return 0
+        }
+        const lockMs = Math.min(policy.maxLockMs, policy.baseLockMs * 2 ** (failures - policy.freeFailures))
+        await store.setLock(key, Date.now() + lockMs)
+        return lockMs
+    }
+
+    async clearFailures(key: string): Promise<void> {
+        await this.getStore().resetFailures(key)
+    }
+}
+
+export const limiter = new Limiter()
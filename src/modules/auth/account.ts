@@ -0,0 +1,319 @@
+// personal data export and scheduled account deletion
+
+import bcrypt from 'bcrypt'
+import JSZip from 'jszip'
+import { supabase } from '../../config/supabase'
+
+// Days between asking for deletion and the data actually being removed
+export const DELETION_GRACE_DAYS = 14
+
+// Columns never included in an export: credentials and secrets
+const USER_SECRET_COLUMNS = [
+    'password_hash',
+    'totp_secret_encrypted',
+    'totp_pending_secret_encrypted',
+    'totp_last_used_step'
+]
+
+export interface AccountExport {
+    exported_at: string
+    user: Record<string, unknown>
+    sessions: Record<string, unknown>[]
+    linked_accounts: Record<string, unknown>[]
+    api_tokens: Record<string, unknown>[]
+    calendar_feeds: Record<string, unknown>[]
+    user_links: Record<string, unknown>[]
+    academics: {
+        profile: Record<string, unknown> | null
+        courses: Record<string, unknown>[]
+        extracurriculars: Record<string, unknown>[]
+    }
+    essays: Record<string, unknown>[]
+    essay_shares: Record<string, unknown>[]
+    essay_comments: Record<string, unknown>[]
+    example_essay_submissions: Record<string, unknown>[]
+    example_essay_votes: Record<string, unknown>[]
+    tasks: Record<string, unknown>[]
+    goals: Record<string, unknown>[]
+    personal_schedule: Record<string, unknown> | null
+}
+
+/**
+ * Select rows or fail the whole export; a partial archive would look complete
+ */
+async function rows(
+    query: PromiseLike<{ data: Record<string, unknown>[] | null; error: { message: string } | null }>,
+    what: string
+): Promise<Record<string, unknown>[]> {
+    const { data, error } = await query
+    if (error) {
+        throw new Error(`Failed to export ${what}: ${error.message}`)
+    }
+    return data || []
+}
+
+export class AccountService {
+    /**
+     * Everything the user owns, across core, academics, essays and tasks
+     */
+    static async exportUserData(userId: string): Promise<AccountExport> {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('*')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        for (const column of USER_SECRET_COLUMNS) {
+            delete user[column]
+        }
+
+        const [
+            sessions, linkedAccounts, apiTokens, calendarFeeds, links, profile, courses, extracurriculars,
+            essays, shares, comments, submissions, votes, tasks, goals, schedule
+        ] = await Promise.all([
+            rows(supabase.schema('core').from('sessions')
+                .select('id, device_name, user_agent, ip_address, created_at, last_seen_at, expires_at')
+                .eq('user_id', userId), 'sessions'),
+            rows(supabase.schema('core').from('oauth_accounts')
+                .select('provider, email, created_at, last_used_at')
+                .eq('user_id', userId), 'linked accounts'),
+            rows(supabase.schema('core').from('api_tokens')
+                .select('name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_at')
+                .eq('user_id', userId), 'API tokens'),
+            rows(supabase.schema('core').from('calendar_feeds')
+                .select('school_id, token_prefix, lookahead_days, last_accessed_at, revoked_at, created_at')
+                .eq('user_id', userId), 'calendar feeds'),
+            // Counselor and parent links on either side, and invites the user sent
+            rows(supabase.schema('core').from('user_links')
+                .select('id, student_id, guardian_id, relationship, status, invited_by, invite_email, expires_at, accepted_at, revoked_at, created_at')
+                .or(`student_id.eq.${userId},guardian_id.eq.${userId},invited_by.eq.${userId}`), 'links'),
+            rows(supabase.schema('academics').from('user_profile').select('*').eq('user_id', userId), 'academic profile'),
+            rows(supabase.schema('academics').from('user_courses').select('*').eq('user_id', userId), 'courses'),
+            rows(supabase.schema('academics').from('extracurriculars').select('*').eq('user_id', userId), 'extracurriculars'),
+            rows(supabase.schema('essays').from('user_essays').select('*').eq('user_id', userId), 'essays'),
+            rows(supabase.schema('essays').from('essay_shares')
+                .select('id, essay_id, reviewer_email, expires_at, completed_at, revoked_at, created_at')
+                .eq('owner_id', userId), 'essay shares'),
+            rows(supabase.schema('essays').from('essay_comments').select('*').eq('author_id', userId), 'essay comments'),
+            rows(supabase.schema('essays').from('example_essays').select('*').eq('submitted_by', userId), 'example essays'),
+            rows(supabase.schema('essays').from('example_essay_votes').select('*').eq('user_id', userId), 'example essay votes'),
+            rows(supabase.schema('tasks').from('tasks').select('*').eq('user_id', userId), 'tasks'),
+            rows(supabase.schema('tasks').from('goals').select('*').eq('user_id', userId), 'goals'),
+            rows(supabase.schema('core').from('personal_schedules').select('*').eq('user_id', userId), 'personal schedule')
+        ])
+
+        // Every saved version of every essay
+        const essayIds = essays.map((essay) => essay.id as string)
+        const versions = essayIds.length
+            ? await rows(
+                supabase.schema('essays').from('essay_versions')
+                    .select('essay_id, version, content, word_count, created_at')
+                    .in('essay_id', essayIds)
+                    .order('version', { ascending: true }),
+                'essay versions'
+            )
+            : []
+
+        return {
+            exported_at: new Date().toISOString(),
+            user,
+            sessions,
+            linked_accounts: linkedAccounts,
+            api_tokens: apiTokens,
+            calendar_feeds: calendarFeeds,
+            user_links: links,
+            academics: {
+                profile: profile[0] ?? null,
+                courses,
+                extracurriculars
+            },
+            essays: essays.map((essay) => ({
+                ...essay,
+                versions: versions.filter((v) => v.essay_id === essay.id)
+            })),
+            essay_shares: shares,
+            essay_comments: comments,
+            example_essay_submissions: submissions,
+            example_essay_votes: votes,
+            tasks,
+            goals,
+            personal_schedule: schedule[0] ?? null
+        }
+    }
+
+    /**
+     * The export as a ZIP: one JSON file per area, plus each essay's current
+     * text as HTML for people who just want their writing back
+     */
+    static async exportUserDataZip(data: AccountExport): Promise<Buffer> {
+        const zip = new JSZip()
+        const json = (value: unknown) => JSON.stringify(value, null, 2)
+
+        zip.file('account.json', json({ exported_at: data.exported_at, user: data.user, linked_accounts: data.linked_accounts, api_tokens: data.api_tokens, calendar_feeds: data.calendar_feeds }))
+        zip.file('sessions.json', json(data.sessions))
+        zip.file('links.json', json(data.user_links))
+        zip.file('academics.json', json(data.academics))
+        zip.file('essays.json', json(data.essays))
+        zip.file('essay_reviews.json', json({ shares: data.essay_shares, comments: data.essay_comments }))
+        zip.file('example_essays.json', json({ submissions: data.example_essay_submissions, votes: data.example_essay_votes }))
+        zip.file('tasks.json', json({ tasks: data.tasks, goals: data.goals }))
+        zip.file('personal_schedule.json', json(data.personal_schedule))
+
+        for (const essay of data.essays) {
+            const title = String(essay.title || 'Untitled essay').replace(/[^\w\s-]/g, '').trim() || 'essay'
+            zip.file(`essays/${title}-${String(essay.id).slice(0, 8)}.html`, String(essay.content ?? ''))
+        }
+
+        return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+    }
+
+    /**
+     * Schedule the account for deletion after the grace period and sign it out
+     * everywhere (sessions, API tokens and calendar feeds). Accounts with a password must confirm it; accounts created
+     * through OAuth confirm by typing their email instead.
+     */
+    static async requestDeletion(userId: string, confirm: { password?: string; email?: string }) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('email, password_hash')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        const confirmed = user.password_hash
+            ? !!confirm.password && await bcrypt.compare(confirm.password, user.password_hash)
+            : !!confirm.email && confirm.email.trim().toLowerCase() === String(user.email).toLowerCase()
+
+        if (!confirmed) {
+            throw new Error(user.password_hash ? 'Password is incorrect' : 'Type your email address to confirm')
+        }
+
+        const now = new Date()
+        const scheduledFor = new Date(now.getTime() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+
+        const { error: updateError } = await supabase
+            .schema('core')
+            .from('users')
+            .update({
+                deletion_requested_at: now.toISOString(),
+                deletion_scheduled_for: scheduledFor.toISOString()
+            })
+            .eq('id', userId)
+
+        if (updateError) {
+            throw new Error(`Failed to schedule deletion: ${updateError.message}`)
+        }
+
+        const { error: sessionsError } = await supabase
+            .schema('core')
+            .from('sessions')
+            .delete()
+            .eq('user_id', userId)
+
+        if (sessionsError) {
+            throw new Error(`Failed to sign out: ${sessionsError.message}`)
+        }
+
+        // API tokens sign in too; they must stop working with the sessions
+        const { error: tokensError } = await supabase
+            .schema('core')
+            .from('api_tokens')
+            .update({ revoked_at: now.toISOString() })
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+
+        if (tokensError) {
+            throw new Error(`Failed to revoke API tokens: ${tokensError.message}`)
+        }
+
+        // Calendar feeds would otherwise keep publishing the user's classes
+        const { error: feedsError } = await supabase
+            .schema('core')
+            .from('calendar_feeds')
+            .update({ revoked_at: now.toISOString() })
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+
+        if (feedsError) {
+            throw new Error(`Failed to revoke calendar feeds: ${feedsError.message}`)
+        }
+
+        return { deletion_scheduled_for: scheduledFor.toISOString() }
+    }
+
+    /**
+     * Delete everything a user owns, child rows first, then the user.
+     * Tables without a cascading foreign key to core.users are cleared explicitly.
+     */
+    static async deleteUserData(userId: string) {
+        const remove = async (schema: string, table: string, column: string, value: string | string[]) => {
+            const query = supabase.schema(schema).from(table).delete()
+            const { error } = Array.isArray(value) ? await query.in(column, value) : await query.eq(column, value)
+            if (error) {
+                throw new Error(`Failed to delete ${schema}.${table}: ${error.message}`)
+            }
+        }
+
+        const { data: essays } = await supabase
+            .schema('essays')
+            .from('user_essays')
+            .select('id')
+            .eq('user_id', userId)
+        const essayIds = (essays || []).map((essay) => essay.id as string)
+
+        if (essayIds.length) {
+            await remove('essays', 'essay_versions', 'essay_id', essayIds)
+        }
+        await remove('essays', 'example_essay_votes', 'user_id', userId)
+        // Submitted examples may carry the student's own words and name
+        await remove('essays', 'example_essays', 'submitted_by', userId)
+        await remove('essays', 'user_essays', 'user_id', userId)
+
+        await remove('academics', 'user_courses', 'user_id', userId)
+        await remove('academics', 'extracurriculars', 'user_id', userId)
+        await remove('academics', 'user_profile', 'user_id', userId)
+
+        await remove('tasks', 'tasks', 'user_id', userId)
+        await remove('tasks', 'goals', 'user_id', userId)
+
+        await remove('core', 'personal_schedules', 'user_id', userId)
+        await remove('core', 'sessions', 'user_id', userId)
+        await remove('core', 'users', 'id', userId)
+    }
+
+    /**
+     * Delete every account whose grace period is over; reports the ones that failed
+     */
+    static async purgeDueAccounts(): Promise<{ deleted: number; failed: { userId: string; error: unknown }[] }> {
+        const { data: due, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('id')
+            .lte('deletion_scheduled_for', new Date().toISOString())
+
+        if (error) {
+            throw new Error(`Failed to find accounts to delete: ${error.message}`)
+        }
+
+        // One account failing to delete must not hold up the rest
+        const failed: { userId: string; error: unknown }[] = []
+        for (const user of due || []) {
+            try {
+                await AccountService.deleteUserData(user.id)
+            } catch (error) {
+                failed.push({ userId: user.id, error })
+            }
+        }
+
+        return { deleted: (due || []).length - failed.length, failed }
+    }
+}
@@ -0,0 +1,61 @@
+import type { EmailMessage } from '../../lib/mailer'
+import env from '../../config/env'
+
+/**
+ * Password reset email with a single-use link
+ */
+export function passwordResetEmail(to: string, name: string | null, token: string, expiresInMinutes: number): EmailMessage {
+    const link = `${env.APP_URL}/reset-password?token=${encodeURIComponent(token)}`
+
+    return {
+        to,
+        subject: 'Reset your Slate password',
+        text: [
+            `Hi ${name || 'there'},`,
+            '',
+            'Someone asked to reset the password for your Slate account. If it was you, open this link to choose a new one:',
+            '',
+            link,
+            '',
+            `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`
+        ].join('\n')
+    }
+}
+
+/**
+ * Notice sent after a password is changed or reset
+ */
+export function passwordChangedEmail(to: string, name: string | null): EmailMessage {
+    return {
+        to,
+        subject: 'Your Slate password was changed',
+        text: [
+            `Hi ${name || 'there'},`,
+            '',
+            'The password for your Slate account was just changed and your other devices were signed out.',
+            '',
+            `If this wasn't you, reset your password right away at ${env.APP_URL}/forgot-password.`
+        ].join('\n')
+    }
+}
+
+/**
+ * Email address verification link, sent on signup and on resend
+ */
+export function verifyEmailEmail(to: string, name: string | null, token: string, expiresInHours: number): EmailMessage {
+    const link = `${env.APP_URL}/verify-email?token=${encodeURIComponent(token)}`
+
+    return {
+        to,
+        subject: 'Confirm your Slate email address',
+        text: [
+            `Hi ${name || 'there'},`,
+            '',
+            'Welcome to Slate! Confirm this is your email address by opening this link:',
+            '',
+            link,
+            '',
+            `The link expires in ${expiresInHours} hours. If you didn't create a Slate account, you can ignore this email.`
+        ].join('\n')
+    }
+}
@@ -0,0 +1,224 @@
+// generic OAuth 2.0 / OpenID Connect provider layer (authorization code + PKCE)
+
+import { createHash, createPublicKey, randomBytes, verify, type webcrypto } from 'crypto'
+import env from '../../config/env'
+
+export interface OAuthProviderConfig {
+    name: string
+    issuer: string
+    clientId: string
+    clientSecret?: string
+    scopes: string[]
+}
+
+export interface OAuthProfile {
+    provider: string
+    subject: string
+    email: string
+    emailVerified: boolean
+    name: string | null
+}
+
+interface DiscoveryDocument {
+    issuer: string
+    authorization_endpoint: string
+    token_endpoint: string
+    jwks_uri: string
+}
+
+// Discovery documents and signing keys rarely change; refetch after this long
+const METADATA_TTL_MS = 60 * 60 * 1000
+
+// Allowed clock skew when checking id_token times
+const CLOCK_SKEW_SECONDS = 60
+
+/**
+ * Providers configured in env. Adding one (e.g. Microsoft) is a new entry here.
+ */
+function configuredProviders(): Record<string, OAuthProviderConfig> {
+    const providers: Record<string, OAuthProviderConfig> = {}
+
+    if (env.GOOGLE_CLIENT_ID) {
+        providers.google = {
+            name: 'google',
+            issuer: env.GOOGLE_ISSUER,
+            clientId: env.GOOGLE_CLIENT_ID,
+            clientSecret: env.GOOGLE_CLIENT_SECRET,
+            scopes: ['openid', 'email', 'profile']
+        }
+    }
+
+    return providers
+}
+
+export function getProvider(name: string): OAuthProviderConfig | null {
+    return configuredProviders()[name] ?? null
+}
+
+export function redirectUri(provider: OAuthProviderConfig): string {
+    return `${env.API_URL}/api/auth/oauth/${provider.name}/callback`
+}
+
+function base64url(buffer: Buffer): string {
+    return buffer.toString('base64url')
+}
+
+/**
+ * Random state, nonce and PKCE verifier for one sign-in attempt
+ */
+export function createAuthorizationParams() {
+    const codeVerifier = base64url(randomBytes(32))
+    return {
+        state: base64url(randomBytes(32)),
+        nonce: base64url(randomBytes(16)),
+        codeVerifier,
+        codeChallenge: base64url(createHash('sha256').update(codeVerifier).digest())
+    }
+}
+
+const metadataCache = new Map<string, { value: unknown; expiresAt: number }>()
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+    const res = await fetch(url, init)
+    const body = await res.json().catch(() => null)
+    if (!res.ok || !body) {
+        const detail = body && typeof body === 'object' && 'error' in body ? `: ${String(body.error)}` : ''
+        throw new Error(`OAuth request to ${new URL(url).host} failed (${res.status})${detail}`)
+    }
+    return body as T
+}
+
+async function cachedJson<T>(url: string): Promise<T> {
+    const cached = metadataCache.get(url)
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.value as T
+    }
+    const value = await fetchJson<T>(url)
+    metadataCache.set(url, { value, expiresAt: Date.now() + METADATA_TTL_MS })
+    return value
+}
+
+function discover(provider: OAuthProviderConfig): Promise<DiscoveryDocument> {
+    return cachedJson<DiscoveryDocument>(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`)
+}
+
+/**
+ * URL to send the browser to for the provider's consent screen
+ */
+export async function buildAuthorizationUrl(
+    provider: OAuthProviderConfig,
+    params: { state: string; nonce: string; codeChallenge: string }
+): Promise<string> {
+    const discovery = await discover(provider)
+    const url = new URL(discovery.authorization_endpoint)
+    url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: provider.clientId,
+        redirect_uri: redirectUri(provider),
+        scope: provider.scopes.join(' '),
+        state: params.state,
+        nonce: params.nonce,
+        code_challenge: params.codeChallenge,
+        code_challenge_method: 'S256',
+        prompt: 'select_account'
+    }).toString()
+    return url.toString()
+}
+
+/**
+ * Check an id_token's signature against the issuer's published keys (RS256 or ES256)
+ */
+async function verifyJwtSignature(jwksUri: string, token: string): Promise<Record<string, unknown>> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.')
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+        throw new Error('Malformed id_token')
+    }
+
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString()) as { alg?: string; kid?: string }
+    if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+        throw new Error(`Unsupported id_token algorithm: ${header.alg}`)
+    }
+
+    const findKey = async () => {
+        const { keys } = await cachedJson<{ keys: (webcrypto.JsonWebKey & { kid?: string })[] }>(jwksUri)
+        return keys.find((k) => !header.kid || k.kid === header.kid)
+    }
+
+    // The issuer may have rotated keys since we cached them
+    let jwk = await findKey()
+    if (!jwk) {
+        metadataCache.delete(jwksUri)
+        jwk = await findKey()
+    }
+    if (!jwk) {
+        throw new Error('No matching signing key for id_token')
+    }
+
+    const valid = verify(
+        'sha256',
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        header.alg === 'ES256'
+            ? { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' }
+            : createPublicKey({ key: jwk, format: 'jwk' }),
+        Buffer.from(encodedSignature, 'base64url')
+    )
+    if (!valid) {
+        throw new Error('Invalid id_token signature')
+    }
+
+    return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString())
+}
+
+/**
+ * Exchange the authorization code (with the PKCE verifier) and return the
+ * verified identity from the id_token
+ */
+export async function exchangeCode(
+    provider: OAuthProviderConfig,
+    code: string,
+    params: { codeVerifier: string; nonce: string }
+): Promise<OAuthProfile> {
+    const discovery = await discover(provider)
+
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri(provider),
+        client_id: provider.clientId,
+        code_verifier: params.codeVerifier
+    })
+    if (provider.clientSecret) {
+        body.set('client_secret', provider.clientSecret)
+    }
+
+    const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded', accept: 'application/json' },
+        body
+    })
+    if (!tokens.id_token) {
+        throw new Error('Provider did not return an id_token')
+    }
+
+    const claims = await verifyJwtSignature(discovery.jwks_uri, tokens.id_token)
+    const now = Math.floor(Date.now() / 1000)
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+
+    if (claims.iss !== discovery.issuer) throw new Error('id_token issuer mismatch')
+    if (!audience.includes(provider.clientId)) throw new Error('id_token audience mismatch')
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('id_token expired')
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error('id_token issued in the future')
+    if (claims.nonce !== params.nonce) throw new Error('id_token nonce mismatch')
+    if (typeof claims.sub !== 'string' || typeof claims.email !== 'string') {
+        throw new Error('id_token is missing sub or email')
+    }
+
+    return {
+        provider: provider.name,
+        subject: claims.sub,
+        email: claims.email,
+        // Google sends a boolean; some issuers send the string "true"
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: typeof claims.name === 'string' ? claims.name : null
+    }
+}
@@ -1,9 +1,56 @@
-import type { FastifyPluginAsync, FastifyRequest } from "fastify"
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify"
 import { AuthService } from "./service"
+import { AccountService } from "./account"
+import { ApiTokensService, MAX_TOKEN_LIFETIME_DAYS } from "./tokens"
+import { API_TOKEN_SCOPES, requireAdmin, requireAuth, type ApiTokenScope } from "../../plugins/auth"
+import { clearFailures, lockout, rateLimit, recordFailure } from "../../plugins/rateLimit"
+import { clearCsrfCookie, setCsrfCookie } from "../../plugins/csrf"
+import type { LockoutPolicy } from "../../lib/limiter"
+import { buildAuthorizationUrl, createAuthorizationParams, exchangeCode, getProvider } from "./oauth"
 import env from "../../config/env"
 
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 
+const MINUTE = 60 * 1000
+
+// request.ip is the client address; trustProxy resolves it behind the load balancer
+const ipKey = (request: FastifyRequest) => request.ip
+
+function emailKey(request: FastifyRequest): string | null {
+    const email = (request.body as { email?: unknown } | undefined)?.email
+    return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null
+}
+
+const signinLimits = rateLimit([
+    { name: 'signin-ip', limit: 30, windowMs: 15 * MINUTE, key: ipKey },
+    { name: 'signin-email', limit: 10, windowMs: 15 * MINUTE, key: emailKey }
+])
+
+const signupLimits = rateLimit([
+    { name: 'signup-ip', limit: 10, windowMs: 60 * MINUTE, key: ipKey },
+    { name: 'signup-email', limit: 3, windowMs: 60 * MINUTE, key: emailKey }
+])
+
+// Also keeps the endpoint from being used to flood someone's inbox
+const forgotPasswordLimits = rateLimit([
+    { name: 'forgot-ip', limit: 10, windowMs: 60 * MINUTE, key: ipKey },
+    { name: 'forgot-email', limit: 3, windowMs: 60 * MINUTE, key: emailKey }
+])
+
+const mfaLimits = rateLimit([
+    { name: 'mfa-ip', limit: 20, windowMs: 15 * MINUTE, key: ipKey }
+])
+
+// After 5 wrong passwords for an email: locked 1 min, then 2, 4... up to an hour
+const SIGNIN_LOCKOUT: LockoutPolicy = {
+    freeFailures: 5,
+    baseLockMs: MINUTE,
+    maxLockMs: 60 * MINUTE,
+    memoryMs: 24 * 60 * MINUTE
+}
+
+const signinLockout = lockout('signin', emailKey)
+
 /**
  * Extract device information from the request
  */
@@ -35,16 +82,76 @@ function getDeviceInfo(request: FastifyRequest): {
     }
 }
 
+/**
+ * Set the session cookies, same as signin
+ */
+function setSessionCookies(reply: FastifyReply, token: string) {
+    const cookieOptions: any = {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
+        maxAge: 15552000, // 180 days
+        path: '/'
+    }
+
+    if (env.COOKIE_DOMAIN) {
+        cookieOptions.domain = env.COOKIE_DOMAIN
+    }
+
+    reply.setCookie('session_token', token, cookieOptions)
+    setCsrfCookie(reply)
+}
+
+// Binds an OAuth callback to the browser that started it. Lax, because the
+// provider sends the user back with a cross-site top-level redirect.
+const oauthStateCookieOptions: any = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 600, // 10 minutes
+    path: '/api/auth/oauth'
+}
+
+/**
+ * Only same-app paths are allowed as post-sign-in redirects
+ */
+function safeRedirectPath(path: unknown): string | null {
+    if (typeof path !== 'string' || !path.startsWith('/') || path.startsWith('//') || path.includes('\\')) {
+        return null
+    }
+    return path
+}
+
+/**
+ * Clear the session cookies on this device
+ */
+function clearSessionCookies(reply: FastifyReply) {
+    const cookieOptions: any = {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: process.env.NODE_ENV === 'production' ? 'strict' : 'lax',
+        path: '/'
+    }
+
+    if (env.COOKIE_DOMAIN) {
+        cookieOptions.domain = env.COOKIE_DOMAIN
+    }
+
+    reply.clearCookie('session_token', cookieOptions)
+    clearCsrfCookie(reply)
+}
+
 const routes: FastifyPluginAsync = async (app) => {
 
     // Signup route
-    app.post('/signup', async (request, reply) => {
+    app.post('/signup', { preHandler: signupLimits }, async (request, reply) => {
         try {
-            const { email, name, password, school_id } = request.body as { 
+            const { email, name, password, school_id, role } = request.body as { 
                 email: string
                 name: string
                 password: string
                 school_id?: string
+                role?: 'student' | 'counselor' | 'parent'
             }
 
             if (!email || !name || !password) {
@@ -53,7 +160,7 @@ const routes: FastifyPluginAsync = async (app) => {
                 })
             }
 
-            if (!emailRegex.test(email)) {
+            if (!emailRegex.test(email.trim())) {
                 return reply.status(400).send({ 
                     error: 'Invalid email format' 
                 })
@@ -65,8 +172,16 @@ const routes: FastifyPluginAsync = async (app) => {
                 })
             }
 
+            // Counselors and parents see nothing until a student accepts a link;
+            // school admins are appointed, never self-selected
+            if (role !== undefined && !['student', 'counselor', 'parent'].includes(role)) {
+                return reply.status(400).send({ 
+                    error: 'Role must be student, counselor or parent' 
+                })
+            }
+
             const deviceInfo = getDeviceInfo(request)
-            const result = await AuthService.signup(email, name, password, school_id, deviceInfo)
+            const result = await AuthService.signup(email, name, password, school_id, deviceInfo, role, request.log)
 
             // Set session cookie
             const cookieOptions: any = {
@@ -77,21 +192,12 @@ const routes: FastifyPluginAsync = async (app) => {
                 path: '/'
             }
 
-            const checkOptions: any = {
-                httpOnly: false,
-                secure: false,
-                sameSite: 'lax',
-                maxAge: 15552000, // 180 days
-                path: '/'
-            }
-
             if (env.COOKIE_DOMAIN) {
                 cookieOptions.domain = env.COOKIE_DOMAIN
-                checkOptions.domain = env.COOKIE_DOMAIN
             }
 
             reply.setCookie('session_token', result.token, cookieOptions)
-            reply.setCookie('session_token_check', 'true', checkOptions)
+            setCsrfCookie(reply)
 
             return reply.status(201).send({
                 user: result.user
@@ -103,7 +209,7 @@ const routes: FastifyPluginAsync = async (app) => {
     })
 
     // Sign in route
-    app.post('/signin', async (request, reply) => {
+    app.post('/signin', { preHandler: [signinLockout, signinLimits] }, async (request, reply) => {
         try {
             const { email, password } = request.body as { 
                 email: string
@@ -116,14 +222,26 @@ const routes: FastifyPluginAsync = async (app) => {
                 })
             }
 
-            if (!emailRegex.test(email)) {
+            if (!emailRegex.test(email.trim())) {
                 return reply.status(400).send({ 
                     error: 'Invalid email format' 
                 })
             }
 
             const deviceInfo = getDeviceInfo(request)
-            const result = await AuthService.signin(email, password, deviceInfo)
+            let result: Awaited<ReturnType<typeof AuthService.signin>>
+            try {
+                result = await AuthService.signin(email, password, deviceInfo)
+            } catch (error) {
+                await recordFailure('signin', emailKey(request)!, SIGNIN_LOCKOUT)
+                throw error
+            }
+            await clearFailures('signin', emailKey(request)!)
+
+            // 2FA on: no session yet, the client asks for a code and calls /signin/mfa
+            if ('mfa_required' in result) {
+                return reply.status(200).send(result)
+            }
 
             // Set session cookie
             const cookieOptions: any = {
@@ -134,21 +252,12 @@ const routes: FastifyPluginAsync = async (app) => {
                 path: '/'
             }
 
-            const checkOptions: any = {
-                httpOnly: false,
-                secure: false,
-                sameSite: 'lax',
-                maxAge: 15552000, // 180 days
-                path: '/'
-            }
-
             if (env.COOKIE_DOMAIN) {
                 cookieOptions.domain = env.COOKIE_DOMAIN
-                checkOptions.domain = env.COOKIE_DOMAIN
             }
 
             reply.setCookie('session_token', result.token, cookieOptions)
-            reply.setCookie('session_token_check', 'true', checkOptions)
+            setCsrfCookie(reply)
 
             return reply.status(200).send({
                 user: result.user
@@ -176,21 +285,12 @@ const routes: FastifyPluginAsync = async (app) => {
                 path: '/'
             }
 
-            const checkOptions: any = {
-                httpOnly: false,
-                secure: false,
-                sameSite: 'lax',
-                maxAge: 15552000, // 180 days
-                path: '/'
-            }
-
             if (env.COOKIE_DOMAIN) {
                 cookieOptions.domain = env.COOKIE_DOMAIN
-                checkOptions.domain = env.COOKIE_DOMAIN
             }
 
             reply.clearCookie('session_token', cookieOptions)
-            reply.clearCookie('session_token_check', checkOptions)
+            clearCsrfCookie(reply)
 
             return reply.status(200).send({ 
                 message: 'Signed out successfully' 
@@ -216,6 +316,544 @@ const routes: FastifyPluginAsync = async (app) => {
 
         return reply.status(200).send({ user })
     })
+
+    // List active sessions (devices), with this device marked
+    app.get('/sessions', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const sessions = await AuthService.listSessions(request.userId!, request.sessionId)
+            return reply.status(200).send({ sessions })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Sign out everywhere else (keeps this device signed in)
+    app.delete('/sessions', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const result = await AuthService.revokeOtherSessions(request.userId!, request.sessionId!)
+            return reply.status(200).send(result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Rename a session
+    app.patch('/sessions/:id', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string }
+            const { device_name } = (request.body || {}) as { device_name?: string }
+
+            if (typeof device_name !== 'string' || !device_name.trim()) {
+                return reply.status(400).send({ 
+                    error: 'device_name is required' 
+                })
+            }
+
+            if (device_name.trim().length > 100) {
+                return reply.status(400).send({ 
+                    error: 'device_name must be at most 100 characters' 
+                })
+            }
+
+            const session = await AuthService.renameSession(request.userId!, id, device_name.trim())
+            if (!session) {
+                return reply.status(404).send({ error: 'Session not found' })
+            }
+
+            return reply.status(200).send({
+                session: { ...session, is_current: session.id === request.sessionId }
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Revoke a session; revoking this device signs it out too
+    app.delete('/sessions/:id', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string }
+
+            const revoked = await AuthService.revokeSession(request.userId!, id)
+            if (!revoked) {
+                return reply.status(404).send({ error: 'Session not found' })
+            }
+
+            if (id === request.sessionId) {
+                clearSessionCookies(reply)
+            }
+
+            return reply.status(204).send()
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Request a password reset email
+    app.post('/password/forgot', { preHandler: forgotPasswordLimits }, async (request, reply) => {
+        try {
+            const { email } = (request.body || {}) as { email?: string }
+
+            if (!email || !emailRegex.test(email.trim())) {
+                return reply.status(400).send({ 
+                    error: 'A valid email is required' 
+                })
+            }
+
+            try {
+                await AuthService.requestPasswordReset(email, request.log)
+            } catch (error) {
+                // Anything unexpected still gets the same answer
+                request.log.error(error, 'Password reset request failed')
+            }
+
+            // Same answer whether or not the account exists
+            return reply.status(200).send({ 
+                message: 'If an account exists for that email, a reset link has been sent' 
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Reset a password with an emailed token
+    app.post('/password/reset', async (request, reply) => {
+        try {
+            const { token, password } = (request.body || {}) as { 
+                token?: string
+                password?: string
+            }
+
+            if (!token || !password) {
+                return reply.status(400).send({ 
+                    error: 'Token and password are required' 
+                })
+            }
+
+            if (password.length < 8) {
+                return reply.status(400).send({ 
+                    error: 'Password must be at least 8 characters' 
+                })
+            }
+
+            await AuthService.resetPassword(token, password, request.log)
+
+            return reply.status(200).send({ 
+                message: 'Password reset successfully' 
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Change the password of the signed-in user
+    app.post('/password/change', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { current_password, new_password } = (request.body || {}) as { 
+                current_password?: string
+                new_password?: string
+            }
+
+            if (!current_password || !new_password) {
+                return reply.status(400).send({ 
+                    error: 'Current and new password are required' 
+                })
+            }
+
+            if (new_password.length < 8) {
+                return reply.status(400).send({ 
+                    error: 'Password must be at least 8 characters' 
+                })
+            }
+
+            await AuthService.changePassword(request.userId!, request.sessionId!, current_password, new_password, request.log)
+
+            return reply.status(200).send({ 
+                message: 'Password changed successfully' 
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Verify an email address with an emailed token
+    app.post('/verify-email', async (request, reply) => {
+        try {
+            const { token } = (request.body || {}) as { token?: string }
+
+            if (!token) {
+                return reply.status(400).send({ 
+                    error: 'Token is required' 
+                })
+            }
+
+            const user = await AuthService.verifyEmail(token)
+
+            return reply.status(200).send({ user })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Resend the verification email to the signed-in user
+    app.post('/verify-email/resend', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            await AuthService.resendVerificationEmail(request.userId!)
+
+            return reply.status(200).send({ 
+                message: 'Verification email sent' 
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Start signing in with an OAuth provider (e.g. /oauth/google/start?redirect=/essays)
+    app.get('/oauth/:provider/start', async (request, reply) => {
+        try {
+            const { provider: providerName } = request.params as { provider: string }
+            const { redirect } = request.query as { redirect?: string }
+
+            const provider = getProvider(providerName)
+            if (!provider) {
+                return reply.status(404).send({ error: 'Unknown sign in provider' })
+            }
+
+            const params = createAuthorizationParams()
+            await AuthService.createOAuthState(provider.name, params, safeRedirectPath(redirect))
+            const url = await buildAuthorizationUrl(provider, params)
+
+            reply.setCookie('oauth_state', params.state, oauthStateCookieOptions)
+            return reply.redirect(url)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Provider redirects back here with ?code=&state=
+    app.get('/oauth/:provider/callback', async (request, reply) => {
+        const { provider: providerName } = request.params as { provider: string }
+        const { code, state, error: providerError } = request.query as {
+            code?: string
+            state?: string
+            error?: string
+        }
+
+        // Errors go back to the app's sign in page rather than a bare JSON response
+        const failTo = (message: string) => {
+            reply.clearCookie('oauth_state', oauthStateCookieOptions)
+            return reply.redirect(`${env.APP_URL}/signin?error=${encodeURIComponent(message)}`)
+        }
+
+        const provider = getProvider(providerName)
+        if (!provider) {
+            return reply.status(404).send({ error: 'Unknown sign in provider' })
+        }
+
+        if (providerError) {
+            return failTo(providerError === 'access_denied' ? 'Sign in was cancelled' : 'Sign in failed')
+        }
+
+        if (!code || !state || state !== request.cookies.oauth_state) {
+            return failTo('Sign in request expired, please try again')
+        }
+
+        try {
+            const stored = await AuthService.consumeOAuthState(provider.name, state)
+            const profile = await exchangeCode(provider, code, stored)
+            const result = await AuthService.signinWithOAuth(profile, getDeviceInfo(request))
+
+            reply.clearCookie('oauth_state', oauthStateCookieOptions)
+
+            // 2FA on: hand the pending token to the app's code entry page
+            if ('mfa_required' in result) {
+                const params = new URLSearchParams({ mfa_token: result.mfa_token })
+                if (stored.redirectTo) params.set('redirect', stored.redirectTo)
+                return reply.redirect(`${env.APP_URL}/signin/mfa?${params.toString()}`)
+            }
+
+            setSessionCookies(reply, result.token)
+
+            return reply.redirect(`${env.APP_URL}${stored.redirectTo || '/'}`)
+        } catch (error) {
+            request.log.warn(error, 'OAuth callback failed')
+            const message = error instanceof Error ? error.message : 'Sign in failed'
+            return failTo(message)
+        }
+    })
+
+    // Finish a 2FA sign in with a TOTP code or a recovery code
+    app.post('/signin/mfa', { preHandler: mfaLimits }, async (request, reply) => {
+        try {
+            const { mfa_token, code, recovery_code } = (request.body || {}) as { 
+                mfa_token?: string
+                code?: string
+                recovery_code?: string
+            }
+
+            if (!mfa_token || (!code && !recovery_code)) {
+                return reply.status(400).send({ 
+                    error: 'mfa_token and a code or recovery_code are required' 
+                })
+            }
+
+            const result = await AuthService.completeMfaSignin(mfa_token, { code, recovery_code }, getDeviceInfo(request))
+
+            setSessionCookies(reply, result.token)
+
+            return reply.status(200).send({
+                user: result.user
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(401).send({ error: message })
+        }
+    })
+
+    // 2FA status for the signed-in user
+    app.get('/mfa', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const status = await AuthService.getMfaStatus(request.userId!)
+            return reply.status(200).send(status)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Start TOTP enrollment; returns the secret and otpauth:// URL for a QR code
+    app.post('/mfa/totp/enroll', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const result = await AuthService.enrollTotp(request.userId!)
+            return reply.status(200).send(result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Confirm enrollment with a code; returns recovery codes once
+    app.post('/mfa/totp/confirm', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { code } = (request.body || {}) as { code?: string }
+
+            if (!code) {
+                return reply.status(400).send({ 
+                    error: 'Code is required' 
+                })
+            }
+
+            const result = await AuthService.confirmTotp(request.userId!, code)
+            return reply.status(200).send(result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Turn 2FA off
+    app.post('/mfa/totp/disable', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { password, code, recovery_code } = (request.body || {}) as { 
+                password?: string
+                code?: string
+                recovery_code?: string
+            }
+
+            if (!code && !recovery_code) {
+                return reply.status(400).send({ 
+                    error: 'A code or recovery_code is required' 
+                })
+            }
+
+            const result = await AuthService.disableTotp(request.userId!, { password, code, recovery_code })
+            return reply.status(200).send(result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Replace recovery codes
+    app.post('/mfa/recovery-codes', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { code } = (request.body || {}) as { code?: string }
+
+            if (!code) {
+                return reply.status(400).send({ 
+                    error: 'Code is required' 
+                })
+            }
+
+            const result = await AuthService.regenerateRecoveryCodes(request.userId!, code)
+            return reply.status(200).send(result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Download everything we hold about the signed-in user (?format=json|zip)
+    app.get('/me/export', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { format = 'json' } = request.query as { format?: string }
+
+            if (format !== 'json' && format !== 'zip') {
+                return reply.status(400).send({ 
+                    error: 'format must be json or zip' 
+                })
+            }
+
+            const data = await AccountService.exportUserData(request.userId!)
+            const date = data.exported_at.slice(0, 10)
+
+            if (format === 'zip') {
+                const archive = await AccountService.exportUserDataZip(data)
+                return reply
+                    .status(200)
+                    .header('Content-Type', 'application/zip')
+                    .header('Content-Disposition', `attachment; filename="slate-export-${date}.zip"`)
+                    .send(archive)
+            }
+
+            return reply
+                .status(200)
+                .header('Content-Disposition', `attachment; filename="slate-export-${date}.json"`)
+                .send(data)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Delete the signed-in user's account after a grace period; signing in again cancels it
+    app.delete('/me', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { password, email } = (request.body || {}) as { 
+                password?: string
+                email?: string
+            }
+
+            if (!password && !email) {
+                return reply.status(400).send({ 
+                    error: 'Password is required' 
+                })
+            }
+
+            const result = await AccountService.requestDeletion(request.userId!, { password, email })
+
+            clearSessionCookies(reply)
+
+            return reply.status(202).send({
+                message: 'Account scheduled for deletion. Sign in again before then to cancel.',
+                ...result
+            })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Set a user's role (platform admins only)
+    app.patch('/users/:id/role', { preHandler: [requireAuth, requireAdmin] }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string }
+            const { role } = (request.body || {}) as { role?: string }
+
+            if (role !== 'student' && role !== 'counselor' && role !== 'parent' && role !== 'school_admin') {
+                return reply.status(400).send({ 
+                    error: 'Role must be student, counselor, parent or school_admin' 
+                })
+            }
+
+            const user = await AuthService.setUserRole(id, role)
+            if (!user) {
+                return reply.status(404).send({ error: 'User not found' })
+            }
+
+            return reply.status(200).send({ user })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // List personal API tokens
+    app.get('/tokens', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const tokens = await ApiTokensService.listTokens(request.userId!)
+            return reply.status(200).send({ tokens, available_scopes: API_TOKEN_SCOPES })
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Create a personal API token; the secret is shown once
+    app.post('/tokens', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { name, scopes, expires_in_days = 90 } = (request.body || {}) as { 
+                name?: string
+                scopes?: string[]
+                expires_in_days?: number
+            }
+
+            if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+                return reply.status(400).send({ 
+                    error: 'Name is required (at most 100 characters)' 
+                })
+            }
+
+            if (!Array.isArray(scopes) || !scopes.length) {
+                return reply.status(400).send({ 
+                    error: `At least one scope is required: ${API_TOKEN_SCOPES.join(', ')}` 
+                })
+            }
+
+            if (!Number.isInteger(expires_in_days) || expires_in_days < 1 || expires_in_days > MAX_TOKEN_LIFETIME_DAYS) {
+                return reply.status(400).send({ 
+                    error: `expires_in_days must be between 1 and ${MAX_TOKEN_LIFETIME_DAYS}` 
+                })
+            }
+
+            const result = await ApiTokensService.createToken(request.userId!, {
+                name: name.trim(),
+                scopes: scopes as ApiTokenScope[],
+                expiresInDays: expires_in_days
+            })
+
+            return reply.status(201).send(result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
+
+    // Revoke a personal API token
+    app.delete('/tokens/:id', { preHandler: requireAuth }, async (request, reply) => {
+        try {
+            const { id } = request.params as { id: string }
+
+            const revoked = await ApiTokensService.revokeToken(request.userId!, id)
+            if (!revoked) {
+                return reply.status(404).send({ error: 'Token not found' })
+            }
+
+            return reply.status(204).send()
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error'
+            return reply.status(400).send({ error: message })
+        }
+    })
 }
 
 export default routes
@@ -1,6 +1,35 @@
+import type { FastifyBaseLogger } from 'fastify'
 import { supabase } from '../../config/supabase'
 import bcrypt from 'bcrypt'
-import { randomBytes } from 'crypto'
+import { createHash, randomBytes } from 'crypto'
+import { mailer } from '../../lib/mailer'
+import { passwordChangedEmail, passwordResetEmail, verifyEmailEmail } from './emails'
+import type { OAuthProfile } from './oauth'
+import { generateTotpSecret, totpUri, verifyTotp } from './totp'
+import { decryptSecret, encryptSecret } from '../../lib/encryption'
+
+// How long an emailed password reset link stays valid
+const RESET_TOKEN_TTL_MINUTES = 60
+
+// How long an email verification link stays valid
+const VERIFY_TOKEN_TTL_HOURS = 48
+
+// How long a user has to finish an OAuth consent screen
+const OAUTH_STATE_TTL_MINUTES = 10
+
+// Time to enter a 2FA code after the password, and wrong codes allowed meanwhile
+const MFA_CHALLENGE_TTL_MINUTES = 5
+const MFA_MAX_ATTEMPTS = 5
+const RECOVERY_CODE_COUNT = 10
+
+/**
+ * Returned instead of a session when the user still has to pass 2FA
+ */
+export interface MfaPending {
+    mfa_required: true
+    mfa_token: string
+    expires_at: string
+}
 
 export class AuthService {
     /**
@@ -10,6 +39,28 @@ export class AuthService {
         return randomBytes(32).toString('hex')
     }
 
+    /**
+     * Hash an emailed token; only the hash is stored
+     */
+    private static hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex')
+    }
+
+    /**
+     * Emails are stored trimmed and lowercased
+     */
+    private static normalizeEmail(email: string): string {
+        return email.trim().toLowerCase()
+    }
+
+    /**
+     * An .ilike pattern matching exactly this email in any case, so accounts
+     * stored before emails were normalized are still found. LIKE wildcards are escaped.
+     */
+    private static emailPattern(email: string): string {
+        return AuthService.normalizeEmail(email).replace(/[\\%_]/g, '\\$&')
+    }
+
     /**
      * Create a session for a user
      */
@@ -34,13 +85,22 @@ export class AuthService {
                 expires_at: expiresAt.toISOString(),
                 device_name: deviceInfo?.deviceName || null,
                 user_agent: deviceInfo?.userAgent || null,
-                ip_address: deviceInfo?.ipAddress || null
+                ip_address: deviceInfo?.ipAddress || null,
+                last_seen_at: new Date().toISOString()
             })
 
         if (error) {
             throw new Error(`Failed to create session: ${error.message}`)
         }
 
+        // Signing in during the deletion grace period cancels the deletion
+        await supabase
+            .schema('core')
+            .from('users')
+            .update({ deletion_requested_at: null, deletion_scheduled_for: null })
+            .eq('id', userId)
+            .not('deletion_scheduled_for', 'is', null)
+
         return token
     }
 
@@ -51,22 +111,24 @@ export class AuthService {
         email: string,
         name: string,
         password: string,
-        schoolId?: string,
-        deviceInfo?: {
+        schoolId: string | undefined,
+        deviceInfo: {
             deviceName?: string | null
             userAgent?: string | null
             ipAddress?: string | null
-        }
+        } | undefined,
+        role: 'student' | 'counselor' | 'parent' = 'student',
+        log: FastifyBaseLogger
     ) {
         // Check if user already exists
-        const { data: existingUser } = await supabase
+        const { data: existingUsers } = await supabase
             .schema('core')
             .from('users')
             .select('id')
-            .eq('email', email)
-            .single()
+            .ilike('email', AuthService.emailPattern(email))
+            .limit(1)
 
-        if (existingUser) {
+        if (existingUsers?.length) {
             // Don't leak information about existing users
             throw new Error('Invalid email or password')
         }
@@ -79,18 +141,26 @@ export class AuthService {
             .schema('core')
             .from('users')
             .insert({
-                email: email,
+                email: AuthService.normalizeEmail(email),
                 name: name,
                 password_hash: passwordHash,
-                school_id: schoolId || null
+                school_id: schoolId || null,
+                role
             })
-            .select('id, email, name, school_id, created_at')
+            .select('id, email, name, school_id, role, email_verified_at, created_at')
             .single()
 
         if (userError || !user) {
             throw new Error(`Failed to create user: ${userError?.message || 'Unknown error'}`)
         }
 
+        // The account works right away; sensitive features wait for verification
+        try {
+            await AuthService.sendVerificationEmail(user.id, user.email, user.name)
+        } catch (error) {
+            log.error(error, 'Failed to send verification email')
+        }
+
         // Create session
         const token = await AuthService.createSession(user.id, deviceInfo)
 
@@ -100,6 +170,8 @@ export class AuthService {
                 email: user.email,
                 name: user.name,
                 school_id: user.school_id,
+                role: user.role,
+                email_verified_at: user.email_verified_at,
                 created_at: user.created_at
             },
             token
@@ -122,20 +194,25 @@ export class AuthService {
         const { data: user, error: userError } = await supabase
             .schema('core')
             .from('users')
-            .select('id, email, name, password_hash, school_id, created_at')
-            .eq('email', email)
+            .select('id, email, name, password_hash, school_id, role, email_verified_at, totp_enabled_at, created_at')
+            .ilike('email', AuthService.emailPattern(email))
             .single()
 
         if (userError || !user) {
             throw new Error('Invalid email or password')
         }
 
-        // Verify password
-        const isValidPassword = await bcrypt.compare(password, user.password_hash)
+        // Verify password (accounts created through OAuth may not have one)
+        const isValidPassword = !!user.password_hash && await bcrypt.compare(password, user.password_hash)
         if (!isValidPassword) {
             throw new Error('Invalid email or password')
         }
 
+        // With 2FA on, the password alone only gets a pending challenge
+        if (user.totp_enabled_at) {
+            return AuthService.startMfaChallenge(user.id)
+        }
+
         // Create session
         const token = await AuthService.createSession(user.id, deviceInfo)
 
@@ -145,6 +222,8 @@ export class AuthService {
                 email: user.email,
                 name: user.name,
                 school_id: user.school_id,
+                role: user.role,
+                email_verified_at: user.email_verified_at,
                 created_at: user.created_at
             },
             token
@@ -199,7 +278,7 @@ export class AuthService {
         const { data: user, error: userError } = await supabase
             .schema('core')
             .from('users')
-            .select('id, email, name, school_id, created_at')
+            .select('id, email, name, school_id, role, email_verified_at, created_at')
             .eq('id', session.user_id)
             .single()
 
@@ -209,4 +288,993 @@ export class AuthService {
 
         return user
     }
+
+    /**
+     * List a user's active sessions, newest activity first, marking the one
+     * making the request. Tokens are never returned.
+     */
+    static async listSessions(userId: string, currentSessionId?: string | null) {
+        const { data: sessions, error } = await supabase
+            .schema('core')
+            .from('sessions')
+            .select('id, device_name, user_agent, ip_address, created_at, last_seen_at, expires_at')
+            .eq('user_id', userId)
+            .gt('expires_at', new Date().toISOString())
+            .order('last_seen_at', { ascending: false, nullsFirst: false })
+
+        if (error) {
+            throw new Error(`Failed to list sessions: ${error.message}`)
+        }
+
+        return (sessions || []).map((session) => ({
+            ...session,
+            last_seen_at: session.last_seen_at || session.created_at,
+            is_current: session.id === currentSessionId
+        }))
+    }
+
+    /**
+     * Rename one of the user's sessions (e.g. "Library computer")
+     * Returns null if the session doesn't belong to the user
+     */
+    static async renameSession(userId: string, sessionId: string, deviceName: string) {
+        const { data: session, error } = await supabase
+            .schema('core')
+            .from('sessions')
+            .update({ device_name: deviceName })
+            .eq('id', sessionId)
+            .eq('user_id', userId)
+            .select('id, device_name, user_agent, ip_address, created_at, last_seen_at, expires_at')
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to rename session: ${error.message}`)
+        }
+
+        return session
+    }
+
+    /**
+     * Revoke one of the user's sessions
+     * Returns false if the session doesn't belong to the user
+     */
+    static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .schema('core')
+            .from('sessions')
+            .delete()
+            .eq('id', sessionId)
+            .eq('user_id', userId)
+            .select('id')
+
+        if (error) {
+            throw new Error(`Failed to revoke session: ${error.message}`)
+        }
+
+        return (data || []).length > 0
+    }
+
+    /**
+     * Sign out everywhere else: revoke every session of the user except the current one
+     */
+    static async revokeOtherSessions(userId: string, currentSessionId: string) {
+        const { data, error } = await supabase
+            .schema('core')
+            .from('sessions')
+            .delete()
+            .eq('user_id', userId)
+            .neq('id', currentSessionId)
+            .select('id')
+
+        if (error) {
+            throw new Error(`Failed to revoke sessions: ${error.message}`)
+        }
+
+        return { revoked: (data || []).length }
+    }
+
+    /**
+     * Revoke all of a user's sessions, optionally keeping one (the current device)
+     */
+    private static async revokeSessionsExcept(userId: string, keepSessionId?: string | null) {
+        let query = supabase
+            .schema('core')
+            .from('sessions')
+            .delete()
+            .eq('user_id', userId)
+
+        if (keepSessionId) {
+            query = query.neq('id', keepSessionId)
+        }
+
+        const { error } = await query
+
+        if (error) {
+            throw new Error(`Failed to revoke sessions: ${error.message}`)
+        }
+    }
+
+    /**
+     * Hash and store a new password for a user
+     */
+    private static async setPassword(userId: string, password: string) {
+        const passwordHash = await bcrypt.hash(password, 10)
+
+        const { error } = await supabase
+            .schema('core')
+            .from('users')
+            .update({ password_hash: passwordHash })
+            .eq('id', userId)
+
+        if (error) {
+            throw new Error(`Failed to update password: ${error.message}`)
+        }
+    }
+
+    /**
+     * Best-effort "your password was changed" notice; the change itself already succeeded
+     */
+    private static async notifyPasswordChanged(email: string, name: string | null, log: FastifyBaseLogger) {
+        try {
+            await mailer.send(passwordChangedEmail(email, name))
+        } catch (error) {
+            log.error(error, 'Failed to send password changed email')
+        }
+    }
+
+    /**
+     * Email a password reset link. Succeeds silently for unknown emails so
+     * the endpoint can't be used to discover accounts: the token and email
+     * work happens after we answer, so both paths take the same time.
+     */
+    static async requestPasswordReset(email: string, log: FastifyBaseLogger) {
+        const { data: user } = await supabase
+            .schema('core')
+            .from('users')
+            .select('id, email, name')
+            .ilike('email', AuthService.emailPattern(email))
+            .maybeSingle()
+
+        if (user) {
+            AuthService.sendPasswordReset(user).catch((error) => {
+                log.error(error, 'Failed to send password reset email')
+            })
+        }
+
+        return { success: true }
+    }
+
+    /**
+     * Replace any outstanding reset token for the user and email the new link
+     */
+    private static async sendPasswordReset(user: { id: string; email: string; name: string | null }) {
+        // Only the newest link works
+        await supabase
+            .schema('core')
+            .from('password_reset_tokens')
+            .delete()
+            .eq('user_id', user.id)
+            .is('used_at', null)
+
+        const token = AuthService.generateToken()
+        const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000)
+
+        const { error } = await supabase
+            .schema('core')
+            .from('password_reset_tokens')
+            .insert({
+                user_id: user.id,
+                token_hash: AuthService.hashToken(token),
+                expires_at: expiresAt.toISOString()
+            })
+
+        if (error) {
+            throw new Error(`Failed to create reset token: ${error.message}`)
+        }
+
+        await mailer.send(passwordResetEmail(user.email, user.name, token, RESET_TOKEN_TTL_MINUTES))
+    }
+
+    /**
+     * Consume a reset token and set a new password. Signs the user out everywhere.
+     */
+    static async resetPassword(token: string, newPassword: string, log: FastifyBaseLogger) {
+        // Marking the token used first makes it single-use even under concurrent requests
+        const { data: resetToken, error } = await supabase
+            .schema('core')
+            .from('password_reset_tokens')
+            .update({ used_at: new Date().toISOString() })
+            .eq('token_hash', AuthService.hashToken(token))
+            .is('used_at', null)
+            .select('user_id, expires_at')
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to reset password: ${error.message}`)
+        }
+
+        if (!resetToken || new Date(resetToken.expires_at) < new Date()) {
+            throw new Error('Invalid or expired reset token')
+        }
+
+        await AuthService.setPassword(resetToken.user_id, newPassword)
+        await AuthService.revokeSessionsExcept(resetToken.user_id)
+
+        const { data: user } = await supabase
+            .schema('core')
+            .from('users')
+            .select('email, name')
+            .eq('id', resetToken.user_id)
+            .single()
+
+        if (user) {
+            await AuthService.notifyPasswordChanged(user.email, user.name, log)
+        }
+
+        return { success: true }
+    }
+
+    /**
+     * Change the password of a signed-in user. Other sessions are signed out;
+     * the current one stays.
+     */
+    static async changePassword(
+        userId: string,
+        currentSessionId: string,
+        currentPassword: string,
+        newPassword: string,
+        log: FastifyBaseLogger
+    ) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('id, email, name, password_hash')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        const isValidPassword = !!user.password_hash && await bcrypt.compare(currentPassword, user.password_hash)
+        if (!isValidPassword) {
+            throw new Error('Current password is incorrect')
+        }
+
+        await AuthService.setPassword(userId, newPassword)
+        await AuthService.revokeSessionsExcept(userId, currentSessionId)
+        await AuthService.notifyPasswordChanged(user.email, user.name, log)
+
+        return { success: true }
+    }
+
+    /**
+     * Issue a fresh verification token (older ones stop working) and email it
+     */
+    private static async sendVerificationEmail(userId: string, email: string, name: string | null) {
+        await supabase
+            .schema('core')
+            .from('email_verification_tokens')
+            .delete()
+            .eq('user_id', userId)
+            .is('used_at', null)
+
+        const token = AuthService.generateToken()
+        const expiresAt = new Date(Date.now() + VERIFY_TOKEN_TTL_HOURS * 60 * 60 * 1000)
+
+        const { error } = await supabase
+            .schema('core')
+            .from('email_verification_tokens')
+            .insert({
+                user_id: userId,
+                token_hash: AuthService.hashToken(token),
+                expires_at: expiresAt.toISOString()
+            })
+
+        if (error) {
+            throw new Error(`Failed to create verification token: ${error.message}`)
+        }
+
+        await mailer.send(verifyEmailEmail(email, name, token, VERIFY_TOKEN_TTL_HOURS))
+    }
+
+    /**
+     * Consume a verification token and mark the user's email as verified
+     */
+    static async verifyEmail(token: string) {
+        const { data: verifyToken, error } = await supabase
+            .schema('core')
+            .from('email_verification_tokens')
+            .update({ used_at: new Date().toISOString() })
+            .eq('token_hash', AuthService.hashToken(token))
+            .is('used_at', null)
+            .select('user_id, expires_at')
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to verify email: ${error.message}`)
+        }
+
+        if (!verifyToken || new Date(verifyToken.expires_at) < new Date()) {
+            throw new Error('Invalid or expired verification token')
+        }
+
+        const { data: user, error: userError } = await supabase
+            .schema('core')
+            .from('users')
+            .update({ email_verified_at: new Date().toISOString() })
+            .eq('id', verifyToken.user_id)
+            .select('id, email, name, school_id, role, email_verified_at, created_at')
+            .single()
+
+        if (userError || !user) {
+            throw new Error(`Failed to verify email: ${userError?.message || 'Unknown error'}`)
+        }
+
+        return user
+    }
+
+    /**
+     * Send the signed-in user a new verification link
+     */
+    static async resendVerificationEmail(userId: string) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('id, email, name, email_verified_at')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        if (user.email_verified_at) {
+            throw new Error('Email is already verified')
+        }
+
+        await AuthService.sendVerificationEmail(user.id, user.email, user.name)
+
+        return { success: true }
+    }
+
+    /**
+     * Remember an in-flight OAuth authorization request until its callback
+     */
+    static async createOAuthState(
+        provider: string,
+        params: { state: string; codeVerifier: string; nonce: string },
+        redirectTo: string | null
+    ) {
+        const expiresAt = new Date(Date.now() + OAUTH_STATE_TTL_MINUTES * 60 * 1000)
+
+        const { error } = await supabase
+            .schema('core')
+            .from('oauth_states')
+            .insert({
+                state_hash: AuthService.hashToken(params.state),
+                provider,
+                code_verifier: params.codeVerifier,
+                nonce: params.nonce,
+                redirect_to: redirectTo,
+                expires_at: expiresAt.toISOString()
+            })
+
+        if (error) {
+            throw new Error(`Failed to start sign in: ${error.message}`)
+        }
+    }
+
+    /**
+     * Take (and delete) the stored authorization request for a callback's state
+     */
+    static async consumeOAuthState(provider: string, state: string) {
+        const { data: stored, error } = await supabase
+            .schema('core')
+            .from('oauth_states')
+            .delete()
+            .eq('state_hash', AuthService.hashToken(state))
+            .eq('provider', provider)
+            .select('code_verifier, nonce, redirect_to, expires_at')
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to finish sign in: ${error.message}`)
+        }
+
+        if (!stored || new Date(stored.expires_at) < new Date()) {
+            throw new Error('Sign in request expired, please try again')
+        }
+
+        return {
+            codeVerifier: stored.code_verifier as string,
+            nonce: stored.nonce as string,
+            redirectTo: stored.redirect_to as string | null
+        }
+    }
+
+    /**
+     * Sign in with a verified provider identity: use the linked account, else
+     * link the account with the same verified email, else create one
+     */
+    static async signinWithOAuth(
+        profile: OAuthProfile,
+        deviceInfo?: {
+            deviceName?: string | null
+            userAgent?: string | null
+            ipAddress?: string | null
+        }
+    ) {
+        if (!profile.emailVerified) {
+            throw new Error('Your provider account email is not verified')
+        }
+
+        const userColumns = 'id, email, name, school_id, role, email_verified_at, totp_enabled_at, created_at'
+
+        const { data: linked } = await supabase
+            .schema('core')
+            .from('oauth_accounts')
+            .select('user_id')
+            .eq('provider', profile.provider)
+            .eq('subject', profile.subject)
+            .maybeSingle()
+
+        let user: Record<string, any> | null = null
+
+        if (linked) {
+            const { data } = await supabase
+                .schema('core')
+                .from('users')
+                .select(userColumns)
+                .eq('id', linked.user_id)
+                .single()
+            user = data
+
+            await supabase
+                .schema('core')
+                .from('oauth_accounts')
+                .update({ last_used_at: new Date().toISOString() })
+                .eq('provider', profile.provider)
+                .eq('subject', profile.subject)
+        } else {
+            // Case-insensitive, so "Ann@X.com" finds ann@x.com
+            const { data: existing } = await supabase
+                .schema('core')
+                .from('users')
+                .select(userColumns)
+                .ilike('email', AuthService.emailPattern(profile.email))
+                .maybeSingle()
+
+            if (existing) {
+                user = existing
+                // The provider vouched for this address. If the account never proved it
+                // owned it, whoever registered it may not be this person: take back
+                // every credential they could still hold before linking.
+                if (!existing.email_verified_at) {
+                    await AuthService.resetUnverifiedAccount(existing.id)
+
+                    const { data } = await supabase
+                        .schema('core')
+                        .from('users')
+                        .update({ email_verified_at: new Date().toISOString() })
+                        .eq('id', existing.id)
+                        .select(userColumns)
+                        .single()
+                    user = data ?? existing
+                }
+            } else {
+                const { data: created, error: createError } = await supabase
+                    .schema('core')
+                    .from('users')
+                    .insert({
+                        email: AuthService.normalizeEmail(profile.email),
+                        name: profile.name || profile.email.split('@')[0],
+                        password_hash: null,
+                        email_verified_at: new Date().toISOString()
+                    })
+                    .select(userColumns)
+                    .single()
+
+                if (createError || !created) {
+                    throw new Error(`Failed to create user: ${createError?.message || 'Unknown error'}`)
+                }
+                user = created
+            }
+
+            const { error: linkError } = await supabase
+                .schema('core')
+                .from('oauth_accounts')
+                .insert({
+                    user_id: user!.id,
+                    provider: profile.provider,
+                    subject: profile.subject,
+                    email: profile.email,
+                    last_used_at: new Date().toISOString()
+                })
+
+            if (linkError) {
+                throw new Error(`Failed to link account: ${linkError.message}`)
+            }
+        }
+
+        if (!user) {
+            throw new Error('User not found')
+        }
+
+        if (user.totp_enabled_at) {
+            return AuthService.startMfaChallenge(user.id)
+        }
+
+        const token = await AuthService.createSession(user.id, deviceInfo)
+
+        return {
+            user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                school_id: user.school_id,
+                role: user.role,
+                email_verified_at: user.email_verified_at,
+                created_at: user.created_at
+            },
+            token
+        }
+    }
+
+    /**
+     * Strip an unverified account of its password, 2FA, sessions and tokens,
+     * so it can be safely handed to the verified owner of its email address
+     */
+    private static async resetUnverifiedAccount(userId: string) {
+        const { error } = await supabase
+            .schema('core')
+            .from('users')
+            .update({
+                password_hash: null,
+                totp_secret_encrypted: null,
+                totp_pending_secret_encrypted: null,
+                totp_enabled_at: null,
+                totp_last_used_step: null
+            })
+            .eq('id', userId)
+
+        if (error) {
+            throw new Error(`Failed to secure account: ${error.message}`)
+        }
+
+        const now = new Date().toISOString()
+        const steps = await Promise.all([
+            supabase.schema('core').from('sessions').delete().eq('user_id', userId),
+            supabase.schema('core').from('mfa_recovery_codes').delete().eq('user_id', userId),
+            supabase.schema('core').from('mfa_challenges').delete().eq('user_id', userId),
+            supabase.schema('core').from('password_reset_tokens').delete().eq('user_id', userId),
+            supabase.schema('core').from('api_tokens').update({ revoked_at: now }).eq('user_id', userId).is('revoked_at', null),
+            supabase.schema('core').from('calendar_feeds').update({ revoked_at: now }).eq('user_id', userId).is('revoked_at', null)
+        ])
+
+        const failed = steps.find((step) => step.error)
+        if (failed?.error) {
+            throw new Error(`Failed to secure account: ${failed.error.message}`)
+        }
+    }
+
+    /**
+     * Issue a short-lived token that stands for "password ok, 2FA pending"
+     */
+    private static async startMfaChallenge(userId: string): Promise<MfaPending> {
+        const token = AuthService.generateToken()
+        const expiresAt = new Date(Date.now() + MFA_CHALLENGE_TTL_MINUTES * 60 * 1000)
+
+        const { error } = await supabase
+            .schema('core')
+            .from('mfa_challenges')
+            .insert({
+                user_id: userId,
+                token_hash: AuthService.hashToken(token),
+                expires_at: expiresAt.toISOString()
+            })
+
+        if (error) {
+            throw new Error(`Failed to start two-factor sign in: ${error.message}`)
+        }
+
+        return { mfa_required: true, mfa_token: token, expires_at: expiresAt.toISOString() }
+    }
+
+    /**
+     * Normalize a recovery code as typed ("ABCDE-12345", "abcde 12345")
+     */
+    private static normalizeRecoveryCode(code: string): string {
+        return code.toLowerCase().replace(/[\s-]/g, '')
+    }
+
+    /**
+     * Replace a user's recovery codes; the plain codes are only returned here
+     */
+    private static async generateRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const raw = randomBytes(5).toString('hex')
+            return `${raw.slice(0, 5)}-${raw.slice(5)}`
+        })
+        const hashes = await Promise.all(
+            codes.map((code) => bcrypt.hash(AuthService.normalizeRecoveryCode(code), 10))
+        )
+
+        await supabase
+            .schema('core')
+            .from('mfa_recovery_codes')
+            .delete()
+            .eq('user_id', userId)
+
+        const { error } = await supabase
+            .schema('core')
+            .from('mfa_recovery_codes')
+            .insert(hashes.map((code_hash) => ({ user_id: userId, code_hash })))
+
+        if (error) {
+            throw new Error(`Failed to create recovery codes: ${error.message}`)
+        }
+
+        return codes
+    }
+
+    /**
+     * Check a TOTP code or a recovery code for a user with 2FA enabled.
+     * Accepted codes are burned: a TOTP step or a recovery code works once.
+     */
+    private static async verifySecondFactor(
+        userId: string,
+        input: { code?: string; recovery_code?: string }
+    ): Promise<boolean> {
+        if (input.code) {
+            const { data: user } = await supabase
+                .schema('core')
+                .from('users')
+                .select('totp_secret_encrypted, totp_last_used_step')
+                .eq('id', userId)
+                .single()
+
+            if (!user?.totp_secret_encrypted) {
+                return false
+            }
+
+            const step = verifyTotp(decryptSecret(user.totp_secret_encrypted), input.code)
+            if (step === null || (user.totp_last_used_step !== null && step <= user.totp_last_used_step)) {
+                return false
+            }
+
+            // Compare-and-swap so two requests can't both use the same code
+            let query = supabase
+                .schema('core')
+                .from('users')
+                .update({ totp_last_used_step: step })
+                .eq('id', userId)
+            query = user.totp_last_used_step === null
+                ? query.is('totp_last_used_step', null)
+                : query.eq('totp_last_used_step', user.totp_last_used_step)
+
+            const { data: updated } = await query.select('id')
+            return (updated || []).length > 0
+        }
+
+        if (input.recovery_code) {
+            const normalized = AuthService.normalizeRecoveryCode(input.recovery_code)
+
+            const { data: codes } = await supabase
+                .schema('core')
+                .from('mfa_recovery_codes')
+                .select('id, code_hash')
+                .eq('user_id', userId)
+                .is('used_at', null)
+
+            for (const code of codes || []) {
+                if (await bcrypt.compare(normalized, code.code_hash)) {
+                    const { data: used } = await supabase
+                        .schema('core')
+                        .from('mfa_recovery_codes')
+                        .update({ used_at: new Date().toISOString() })
+                        .eq('id', code.id)
+                        .is('used_at', null)
+                        .select('id')
+                    return (used || []).length > 0
+                }
+            }
+        }
+
+        return false
+    }
+
+    /**
+     * Finish a 2FA sign in: trade the pending token plus a code for a session
+     */
+    static async completeMfaSignin(
+        mfaToken: string,
+        input: { code?: string; recovery_code?: string },
+        deviceInfo?: {
+            deviceName?: string | null
+            userAgent?: string | null
+            ipAddress?: string | null
+        }
+    ) {
+        const tokenHash = AuthService.hashToken(mfaToken)
+
+        // Use up an attempt before checking the code, so parallel guesses can't share one
+        const { data: claimed, error: claimError } = await supabase
+            .schema('core')
+            .rpc('claim_mfa_attempt', { p_token_hash: tokenHash, p_max_attempts: MFA_MAX_ATTEMPTS })
+
+        if (claimError) {
+            throw new Error(`Failed to verify code: ${claimError.message}`)
+        }
+
+        const challenge = (claimed as { id: string; user_id: string }[] | null)?.[0]
+        if (!challenge) {
+            // Expired or out of attempts: clear it so the user starts over
+            await supabase.schema('core').from('mfa_challenges').delete().eq('token_hash', tokenHash)
+            throw new Error('Sign in expired, please enter your password again')
+        }
+
+        const valid = await AuthService.verifySecondFactor(challenge.user_id, input)
+        if (!valid) {
+            throw new Error('Invalid code')
+        }
+
+        // Single use: only the request that deletes the challenge gets a session
+        const { data: consumed } = await supabase
+            .schema('core')
+            .from('mfa_challenges')
+            .delete()
+            .eq('id', challenge.id)
+            .select('id')
+
+        if (!consumed?.length) {
+            throw new Error('Sign in expired, please enter your password again')
+        }
+
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('id, email, name, school_id, role, email_verified_at, created_at')
+            .eq('id', challenge.user_id)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        const token = await AuthService.createSession(user.id, deviceInfo)
+
+        return { user, token }
+    }
+
+    /**
+     * Whether 2FA is on and how many recovery codes are left
+     */
+    static async getMfaStatus(userId: string) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('totp_enabled_at')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        const { count } = await supabase
+            .schema('core')
+            .from('mfa_recovery_codes')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .is('used_at', null)
+
+        return {
+            totp_enabled: !!user.totp_enabled_at,
+            totp_enabled_at: user.totp_enabled_at,
+            recovery_codes_remaining: user.totp_enabled_at ? count ?? 0 : 0
+        }
+    }
+
+    /**
+     * Start TOTP enrollment: a new secret for the authenticator app, not active
+     * until confirmed with a code
+     */
+    static async enrollTotp(userId: string) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('email, totp_enabled_at')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        if (user.totp_enabled_at) {
+            throw new Error('Two-factor authentication is already enabled')
+        }
+
+        const secret = generateTotpSecret()
+
+        const { error: updateError } = await supabase
+            .schema('core')
+            .from('users')
+            .update({ totp_pending_secret_encrypted: encryptSecret(secret) })
+            .eq('id', userId)
+
+        if (updateError) {
+            throw new Error(`Failed to start enrollment: ${updateError.message}`)
+        }
+
+        return {
+            secret,
+            otpauth_url: totpUri(secret, user.email, 'Slate')
+        }
+    }
+
+    /**
+     * Confirm enrollment with a code from the app; turns 2FA on and returns
+     * the recovery codes (shown once)
+     */
+    static async confirmTotp(userId: string, code: string) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('totp_pending_secret_encrypted, totp_enabled_at')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        if (user.totp_enabled_at) {
+            throw new Error('Two-factor authentication is already enabled')
+        }
+
+        if (!user.totp_pending_secret_encrypted) {
+            throw new Error('Start enrollment first')
+        }
+
+        const step = verifyTotp(decryptSecret(user.totp_pending_secret_encrypted), code)
+        if (step === null) {
+            throw new Error('Invalid code')
+        }
+
+        const { error: updateError } = await supabase
+            .schema('core')
+            .from('users')
+            .update({
+                totp_secret_encrypted: user.totp_pending_secret_encrypted,
+                totp_pending_secret_encrypted: null,
+                totp_enabled_at: new Date().toISOString(),
+                totp_last_used_step: step
+            })
+            .eq('id', userId)
+
+        if (updateError) {
+            throw new Error(`Failed to enable two-factor authentication: ${updateError.message}`)
+        }
+
+        const recoveryCodes = await AuthService.generateRecoveryCodes(userId)
+
+        return { recovery_codes: recoveryCodes }
+    }
+
+    /**
+     * Turn 2FA off. Needs the password (if the account has one) and a current
+     * code or recovery code.
+     */
+    static async disableTotp(
+        userId: string,
+        input: { password?: string; code?: string; recovery_code?: string }
+    ) {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('password_hash, totp_enabled_at')
+            .eq('id', userId)
+            .single()
+
+        if (error || !user) {
+            throw new Error('User not found')
+        }
+
+        if (!user.totp_enabled_at) {
+            throw new Error('Two-factor authentication is not enabled')
+        }
+
+        if (user.password_hash && !(input.password && await bcrypt.compare(input.password, user.password_hash))) {
+            throw new Error('Password is incorrect')
+        }
+
+        if (!(await AuthService.verifySecondFactor(userId, input))) {
+            throw new Error('Invalid code')
+        }
+
+        const { error: updateError } = await supabase
+            .schema('core')
+            .from('users')
+            .update({
+                totp_secret_encrypted: null,
+                totp_pending_secret_encrypted: null,
+                totp_enabled_at: null,
+                totp_last_used_step: null
+            })
+            .eq('id', userId)
+
+        if (updateError) {
+            throw new Error(`Failed to disable two-factor authentication: ${updateError.message}`)
+        }
+
+        await supabase
+            .schema('core')
+            .from('mfa_recovery_codes')
+            .delete()
+            .eq('user_id', userId)
+
+        return { success: true }
+    }
+
+    /**
+     * Replace the recovery codes (e.g. when running low); needs a current code
+     */
+    static async regenerateRecoveryCodes(userId: string, code: string) {
+        const { data: user } = await supabase
+            .schema('core')
+            .from('users')
+            .select('totp_enabled_at')
+            .eq('id', userId)
+            .single()
+
+        if (!user?.totp_enabled_at) {
+            throw new Error('Two-factor authentication is not enabled')
+        }
+
+        if (!(await AuthService.verifySecondFactor(userId, { code }))) {
+            throw new Error('Invalid code')
+        }
+
+        return { recovery_codes: await AuthService.generateRecoveryCodes(userId) }
+    }
+
+    /**
+     * Set a user's role (platform admins only). School admins must belong to a school.
+     */
+    static async setUserRole(userId: string, role: 'student' | 'counselor' | 'parent' | 'school_admin') {
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('school_id')
+            .eq('id', userId)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to update role: ${error.message}`)
+        }
+
+        if (!user) {
+            return null
+        }
+
+        if (role === 'school_admin' && !user.school_id) {
+            throw new Error('A school admin must belong to a school')
+        }
+
+        const { data: updated, error: updateError } = await supabase
+            .schema('core')
+            .from('users')
+            .update({ role })
+            .eq('id', userId)
+            .select('id, email, name, school_id, role')
+            .single()
+
+        if (updateError) {
+            throw new Error(`Failed to update role: ${updateError.message}`)
+        }
+
+        return updated
+    }
 }
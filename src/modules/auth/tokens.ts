@@ -0,0 +1,91 @@
+// personal API tokens for scripts and integrations
+
+import { createHash, randomBytes } from 'crypto'
+import { supabase } from '../../config/supabase'
+import { API_TOKEN_SCOPES, type ApiTokenScope } from '../../plugins/auth'
+
+// Recognisable in logs and secret scanners
+const TOKEN_PREFIX = 'slt_'
+
+// Columns safe to show back to the user (never the hash)
+const TOKEN_COLUMNS = 'id, name, token_prefix, scopes, expires_at, last_used_at, created_at'
+
+export const MAX_TOKEN_LIFETIME_DAYS = 365
+
+export class ApiTokensService {
+    /**
+     * Create a token. The plain token is only returned here; we keep its hash.
+     */
+    static async createToken(
+        userId: string,
+        input: { name: string; scopes: ApiTokenScope[]; expiresInDays: number }
+    ) {
+        const unknown = input.scopes.filter((scope) => !API_TOKEN_SCOPES.includes(scope))
+        if (unknown.length) {
+            throw new Error(`Unknown scopes: ${unknown.join(', ')}`)
+        }
+
+        const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+        const expiresAt = new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+
+        const { data: apiToken, error } = await supabase
+            .schema('core')
+            .from('api_tokens')
+            .insert({
+                user_id: userId,
+                name: input.name,
+                token_hash: createHash('sha256').update(token).digest('hex'),
+                token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+                scopes: [...new Set(input.scopes)],
+                expires_at: expiresAt.toISOString()
+            })
+            .select(TOKEN_COLUMNS)
+            .single()
+
+        if (error) {
+            throw new Error(`Failed to create token: ${error.message}`)
+        }
+
+        return { token: apiToken, secret: token }
+    }
+
+    /**
+     * The user's tokens that still work, newest first
+     */
+    static async listTokens(userId: string) {
+        const { data: tokens, error } = await supabase
+            .schema('core')
+            .from('api_tokens')
+            .select(TOKEN_COLUMNS)
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false })
+
+        if (error) {
+            throw new Error(`Failed to list tokens: ${error.message}`)
+        }
+
+        return tokens || []
+    }
+
+    /**
+     * Revoke a token; returns false if it isn't the user's (or is already revoked)
+     */
+    static async revokeToken(userId: string, tokenId: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .schema('core')
+            .from('api_tokens')
+            .update({ revoked_at: new Date().toISOString() })
+            .eq('id', tokenId)
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+            .select('id')
+
+        if (error) {
+            throw new Error(`Failed to revoke token: ${error.message}`)
+        }
+
+        return (data || []).length > 0
+    }
+}
@@ -0,0 +1,154 @@
+// local essay analytics: word/character limits and writing stats
+
+import { Parser } from 'htmlparser2'
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'br'])
+
+// Common function words that shouldn't be flagged as overused
+export const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'was', 'were', 'are', 'but', 'not', 'you', 'your',
+  'from', 'have', 'had', 'has', 'they', 'them', 'their', 'there', 'then', 'than', 'what', 'when',
+  'where', 'which', 'who', 'whom', 'why', 'how', 'all', 'any', 'can', 'could', 'would', 'should',
+  'will', 'did', 'does', 'doing', 'been', 'being', 'into', 'onto', 'out', 'over', 'under', 'about',
+  'after', 'before', 'again', 'also', 'just', 'only', 'very', 'too', 'more', 'most', 'some', 'such',
+  'each', 'other', 'our', 'ours', 'his', 'her', 'hers', 'him', 'she', 'its', 'it\'s', 'i\'m', 'me',
+  'myself', 'these', 'those', 'while', 'because', 'through', 'during', 'between', 'both', 'own',
+  'same', 'so', 'if', 'or', 'as', 'at', 'by', 'on', 'in', 'of', 'to', 'is', 'be', 'an', 'a', 'it',
+  'my', 'we', 'us', 'he', 'do', 'no', 'up', 'one', 'even', 'every', 'like', 'get', 'got', 'much'
+])
+
+const OVERUSED_MIN_COUNT = 3
+const OVERUSED_LIMIT = 10
+
+/**
+ * Convert TipTap HTML to plain text, with one newline per paragraph break
+ */
+export function htmlToPlainText(html: string | null | undefined): string {
+  if (!html) return ''
+
+  let text = ''
+  const parser = new Parser(
+    {
+      onopentag(name) {
+        if (BLOCK_TAGS.has(name) && text && !text.endsWith('\n')) text += '\n'
+      },
+      ontext(chunk) {
+        text += chunk.replace(/\s+/g, ' ')
+      }
+    },
+    { decodeEntities: true }
+  )
+  parser.write(html)
+  parser.end()
+
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Count characters the way the Common App text box does: every character
+ * including spaces and punctuation, with each paragraph break counted once
+ */
+export function countCharacters(html: string | null | undefined): number {
+  return Array.from(htmlToPlainText(html)).length
+}
+
+/**
+ * Split plain text into words (letters/digits, keeping inner apostrophes and hyphens)
+ */
+export function extractWords(text: string): string[] {
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) ?? []
+}
+
+/**
+ * Estimate syllables in an English word
+ */
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '')
+  if (!w) return 0
+  if (w.length <= 3) return 1
+
+  const trimmed = w.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  const groups = trimmed.match(/[aeiouy]{1,2}/g)
+  return Math.max(groups?.length ?? 0, 1)
+}
+
+export interface PromptLimits {
+  word_limit: number | null
+  character_limit: number | null
+}
+
+/**
+ * Compare an essay's length against its prompt's word and character limits
+ */
+export function getLimitStatus(
+  html: string | null | undefined,
+  wordCount: number,
+  limits: PromptLimits
+) {
+  const characterCount = countCharacters(html)
+  const { word_limit, character_limit } = limits
+
+  const overWords = word_limit !== null && wordCount > word_limit
+  const overCharacters = character_limit !== null && characterCount > character_limit
+
+  return {
+    word_count: wordCount,
+    character_count: characterCount,
+    word_limit,
+    character_limit,
+    words_remaining: word_limit !== null ? word_limit - wordCount : null,
+    characters_remaining: character_limit !== null ? character_limit - characterCount : null,
+    status: word_limit === null && character_limit === null
+      ? 'no_limit'
+      : overWords || overCharacters ? 'over' : 'under'
+  }
+}
+
+/**
+ * Sentence, readability and word-frequency stats for an essay
+ */
+export function analyzeEssay(html: string | null | undefined) {
+  const text = htmlToPlainText(html)
+  const allWords = extractWords(text)
+
+  // Paragraph breaks end a sentence even without punctuation
+  const sentences = text
+    .split(/(?<=[.!?]["'”’)]*)\s+|\n+/)
+    .filter((sentence) => extractWords(sentence).length > 0)
+
+  const wordCount = allWords.length
+  const sentenceCount = sentences.length
+  const syllables = allWords.reduce((sum, word) => sum + countSyllables(word), 0)
+
+  // Flesch-Kincaid grade level
+  const readabilityGrade = wordCount && sentenceCount
+    ? Number((0.39 * (wordCount / sentenceCount) + 11.8 * (syllables / wordCount) - 15.59).toFixed(1))
+    : null
+
+  const frequency = new Map<string, number>()
+  for (const word of allWords) {
+    const normalized = word.toLowerCase().replace(/’/g, '\'')
+    if (normalized.length < 3 || STOPWORDS.has(normalized)) continue
+    frequency.set(normalized, (frequency.get(normalized) ?? 0) + 1)
+  }
+
+  const overusedWords = [...frequency.entries()]
+    .filter(([, count]) => count >= OVERUSED_MIN_COUNT)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, OVERUSED_LIMIT)
+    .map(([word, count]) => ({ word, count }))
+
+  return {
+    word_count: wordCount,
+    character_count: Array.from(text).length,
+    paragraph_count: text ? text.split('\n').length : 0,
+    sentence_count: sentenceCount,
+    average_sentence_length: sentenceCount ? Number((wordCount / sentenceCount).toFixed(1)) : 0,
+    readability_grade: readabilityGrade,
+    overused_words: overusedWords
+  }
+}
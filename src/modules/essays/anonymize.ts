@@ -0,0 +1,55 @@
+// redact names and schools from essay HTML before it is shared publicly
+
+// "Springfield High School", "St. Mary's Academy", "Lincoln Prep", ...
+// Sentence words like "At" or "The" are capitalized too, so they never start a name
+const SCHOOL_PATTERN =
+  /(?<![\p{L}\p{N}])(?:(?!(?:At|In|From|To|The|My|Our|And|Of|For|With|When|After|Before)\s)(?:St\.|Saint|\p{Lu}[\p{L}'’.-]*)\s+){1,4}(?:High School|Middle School|Elementary School|Academy|Preparatory School|Prep School|Prep|School)(?![\p{L}\p{N}])/gu
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Match a literal as a whole word. \b only knows ASCII letters, so "Zoë" needs
+ * Unicode-aware lookarounds instead.
+ */
+function wholeWord(text: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(text.trim())}(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+/**
+ * Apply a replacement to the text between tags, leaving the markup alone
+ */
+function replaceInText(html: string, pattern: RegExp, replacement: string): string {
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) => (part.startsWith('<') ? part : part.replace(pattern, replacement)))
+    .join('')
+}
+
+/**
+ * Redact the student's name, anything that looks like a school name, and any
+ * extra terms the student asked to hide
+ */
+export function anonymizeHtml(
+  html: string,
+  opts: { names?: (string | null | undefined)[]; terms?: string[] }
+): string {
+  let out = html
+
+  // Full names first, then the individual parts (first name, last name)
+  const names = (opts.names ?? []).filter((n): n is string => !!n && n.trim().length > 1)
+  const nameParts = names.flatMap((n) => n.split(/\s+/)).filter((part) => part.length > 1)
+  for (const name of [...names, ...nameParts]) {
+    out = replaceInText(out, wholeWord(name), '[Name]')
+  }
+
+  out = replaceInText(out, SCHOOL_PATTERN, '[School]')
+
+  for (const term of opts.terms ?? []) {
+    if (!term.trim()) continue
+    out = replaceInText(out, wholeWord(term), '[Redacted]')
+  }
+
+  return out
+}
@@ -0,0 +1,148 @@
+// word-level diff for essay versions (TipTap HTML)
+
+export interface DiffSpan {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Past this many edits we stop tracing and mark the changed middle as replaced
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Split TipTap HTML into words, treating every tag as a word boundary
+ */
+function tokenize(html: string | null | undefined): string[] {
+  if (!html) return []
+  const stripped = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim()
+  return stripped ? stripped.split(' ') : []
+}
+
+/**
+ * Myers shortest edit script between two token lists.
+ * Returns null when the edit distance exceeds MAX_EDIT_DISTANCE.
+ */
+function myers(a: string[], b: string[]): DiffSpan[] | null {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    // Only diagonals -d..d matter when backtracking from round d
+    trace.push(v.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, d)
+      }
+    }
+  }
+
+  return null
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], depth: number): DiffSpan[] {
+  const ops: DiffSpan[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = depth; d > 0; d--) {
+    const v = trace[d]
+    const at = (k: number) => v[k + d]
+    const k = x - y
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', text: a[x - 1] })
+      x--
+      y--
+    }
+
+    if (x === prevX) {
+      ops.push({ type: 'added', text: b[y - 1] })
+    } else {
+      ops.push({ type: 'removed', text: a[x - 1] })
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', text: a[x - 1] })
+    x--
+    y--
+  }
+
+  return ops.reverse()
+}
+
+/**
+ * Word-level diff of two HTML documents. Consecutive words of the same
+ * type are merged into a single span.
+ */
+export function diffHtmlWords(fromHtml: string | null | undefined, toHtml: string | null | undefined) {
+  const a = tokenize(fromHtml)
+  const b = tokenize(toHtml)
+
+  // Trim the common prefix and suffix so the edit script only covers the changed middle
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((text) => ({ type: 'removed' as const, text })),
+    ...middleB.map((text) => ({ type: 'added' as const, text }))
+  ]
+
+  const ops: DiffSpan[] = [
+    ...a.slice(0, start).map((text) => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(endA).map((text) => ({ type: 'equal' as const, text }))
+  ]
+
+  const spans: DiffSpan[] = []
+  let added = 0
+  let removed = 0
+
+  for (const op of ops) {
+    if (op.type === 'added') added++
+    if (op.type === 'removed') removed++
+
+    const last = spans[spans.length - 1]
+    if (last && last.type === op.type) {
+      last.text += ' ' + op.text
+    } else {
+      spans.push({ ...op })
+    }
+  }
+
+  return {
+    spans,
+    stats: { added, removed }
+  }
+}
@@ -0,0 +1,470 @@
+// essay export: TipTap HTML -> docx / pdf / markdown / plain text
+
+import { Parser } from 'htmlparser2'
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  TextRun as DocxTextRun
+} from 'docx'
+import PDFDocument from 'pdfkit'
+import JSZip from 'jszip'
+import type { ExportFormat } from './schemas'
+
+export interface ExportableEssay {
+  title: string
+  prompt_text: string | null
+  word_count: number
+  updated_at: string | null
+  content: string | null
+}
+
+export interface ExportedFile {
+  filename: string
+  contentType: string
+  body: Buffer
+}
+
+interface TextRun {
+  text: string
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  strike: boolean
+}
+
+interface Block {
+  kind: 'paragraph' | 'heading' | 'list_item'
+  level: number // heading level, or list nesting depth
+  ordered: boolean
+  listId: number // ordered list items with the same id are numbered together
+  index: number // 1-based position inside an ordered list
+  quote: boolean
+  runs: TextRun[]
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+  md: 'text/markdown; charset=utf-8',
+  txt: 'text/plain; charset=utf-8'
+}
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'])
+
+/**
+ * Parse TipTap HTML into a flat list of blocks with styled text runs
+ */
+function parseBlocks(html: string | null | undefined): Block[] {
+  const blocks: Block[] = []
+  const lists: { ordered: boolean; id: number; count: number }[] = []
+  const marks = { bold: 0, italic: 0, underline: 0, strike: 0 }
+  let quoteDepth = 0
+  let listIds = 0
+  let current: Block | null = null
+  let pendingItem = false
+
+  const startBlock = (kind: Block['kind'], level = 0) => {
+    if (current) blocks.push(current)
+
+    const list = lists[lists.length - 1]
+    if (pendingItem && list) {
+      list.count++
+      current = {
+        kind: 'list_item',
+        level: lists.length - 1,
+        ordered: list.ordered,
+        listId: list.id,
+        index: list.count,
+        quote: quoteDepth > 0,
+        runs: []
+      }
+      pendingItem = false
+    } else {
+      current = { kind, level, ordered: false, listId: 0, index: 0, quote: quoteDepth > 0, runs: [] }
+    }
+  }
+
+  const endBlock = () => {
+    if (current) blocks.push(current)
+    current = null
+  }
+
+  const parser = new Parser(
+    {
+      onopentag(name) {
+        if (name === 'strong' || name === 'b') marks.bold++
+        else if (name === 'em' || name === 'i') marks.italic++
+        else if (name === 'u') marks.underline++
+        else if (name === 's' || name === 'strike' || name === 'del') marks.strike++
+        else if (name === 'blockquote') quoteDepth++
+        else if (name === 'ul' || name === 'ol') lists.push({ ordered: name === 'ol', id: ++listIds, count: 0 })
+        else if (name === 'li') {
+          endBlock()
+          pendingItem = true
+        } else if (name === 'br') {
+          if (!current) startBlock('paragraph')
+          current!.runs.push({ text: '\n', bold: false, italic: false, underline: false, strike: false })
+        } else if (BLOCK_TAGS.has(name)) {
+          if (name === 'p') startBlock('paragraph')
+          else startBlock('heading', Number(name.slice(1)))
+        }
+      },
+      ontext(text) {
+        const normalized = text.replace(/\s+/g, ' ')
+        if (!normalized.trim() && !current) return
+        if (!current) startBlock('paragraph')
+
+        const run = {
+          text: normalized,
+          bold: marks.bold > 0,
+          italic: marks.italic > 0,
+          underline: marks.underline > 0,
+          strike: marks.strike > 0
+        }
+
+        // The parser splits text around entities; merge pieces with the same marks back together
+        const last = current!.runs[current!.runs.length - 1]
+        if (
+          last && last.text !== '\n' &&
+          last.bold === run.bold && last.italic === run.italic &&
+          last.underline === run.underline && last.strike === run.strike
+        ) {
+          last.text += run.text
+        } else {
+          current!.runs.push(run)
+        }
+      },
+      onclosetag(name) {
+        if (name === 'strong' || name === 'b') marks.bold--
+        else if (name === 'em' || name === 'i') marks.italic--
+        else if (name === 'u') marks.underline--
+        else if (name === 's' || name === 'strike' || name === 'del') marks.strike--
+        else if (name === 'blockquote') quoteDepth--
+        else if (name === 'ul' || name === 'ol') lists.pop()
+        else if (name === 'li') {
+          endBlock()
+          pendingItem = false
+        } else if (BLOCK_TAGS.has(name)) endBlock()
+      }
+    },
+    { decodeEntities: true }
+  )
+
+  parser.write(html ?? '')
+  parser.end()
+  endBlock()
+
+  // Drop blocks that are only whitespace (empty TipTap paragraphs)
+  return blocks.filter((block) => block.runs.some((run) => run.text.trim()))
+}
+
+function blockText(block: Block): string {
+  return block.runs.map((run) => run.text).join('').replace(/ *\n */g, '\n').trim()
+}
+
+function formatDate(value: string | null): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return null
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+function metaLine(essay: ExportableEssay): string {
+  const updated = formatDate(essay.updated_at)
+  return [`${essay.word_count} words`, updated ? `Last updated ${updated}` : null]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+function listMarker(block: Block): string {
+  return block.ordered ? `${block.index}. ` : '- '
+}
+
+/**
+ * Render blocks as text. Consecutive list items stay together; everything
+ * else is separated by a blank line.
+ */
+function joinBlocks(html: string | null, render: (block: Block) => string): string {
+  let previous: Block | null = null
+  let out = ''
+
+  for (const block of parseBlocks(html)) {
+    if (previous) out += previous.kind === 'list_item' && block.kind === 'list_item' ? '\n' : '\n\n'
+    out += render(block)
+    previous = block
+  }
+
+  return out
+}
+
+// --- Plain text ---
+
+function toPlainText(essay: ExportableEssay): string {
+  const lines = [essay.title]
+  if (essay.prompt_text) lines.push('', `Prompt: ${essay.prompt_text}`)
+  lines.push('', metaLine(essay), '')
+
+  return lines.join('\n') + '\n' + joinBlocks(essay.content, (block) => {
+    const text = blockText(block)
+    const quoted = block.quote ? text.replace(/^/gm, '    ') : text
+    if (block.kind === 'list_item') return '  '.repeat(block.level) + listMarker(block) + quoted
+    return quoted
+  }) + '\n'
+}
+
+// --- Markdown ---
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_~\[\]#<>])/g, '\\$1')
+}
+
+function runsToMarkdown(runs: TextRun[]): string {
+  return runs
+    .map((run) => {
+      if (run.text === '\n') return '  \n'
+      const escaped = escapeMarkdown(run.text)
+      const trimmed = escaped.trim()
+      if (!trimmed) return escaped
+
+      // Keep surrounding spaces outside the markers, or markdown won't render them
+      let styled = trimmed
+      if (run.strike) styled = `~~${styled}~~`
+      if (run.italic) styled = `*${styled}*`
+      if (run.bold) styled = `**${styled}**`
+      const lead = escaped.match(/^\s*/)![0]
+      const trail = escaped.match(/\s*$/)![0]
+      return lead + styled + trail
+    })
+    .join('')
+    .trim()
+}
+
+function toMarkdown(essay: ExportableEssay): string {
+  const parts = [`# ${escapeMarkdown(essay.title)}`]
+  if (essay.prompt_text) parts.push(`> **Prompt:** ${escapeMarkdown(essay.prompt_text)}`)
+  parts.push(`*${metaLine(essay)}*`, '---')
+
+  return parts.join('\n\n') + '\n\n' + joinBlocks(essay.content, (block) => {
+    let text = runsToMarkdown(block.runs)
+    if (block.kind === 'heading') text = `${'#'.repeat(Math.min(block.level + 1, 6))} ${text}`
+    if (block.kind === 'list_item') text = '  '.repeat(block.level) + listMarker(block) + text
+    if (block.quote) text = text.replace(/^/gm, '> ')
+    return text
+  }) + '\n'
+}
+
+// --- DOCX ---
+
+const DOCX_HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+]
+
+function runsToDocx(runs: TextRun[]): DocxTextRun[] {
+  return runs.map((run) =>
+    run.text === '\n'
+      ? new DocxTextRun({ break: 1 })
+      : new DocxTextRun({
+          text: run.text,
+          bold: run.bold,
+          italics: run.italic,
+          underline: run.underline ? {} : undefined,
+          strike: run.strike
+        })
+  )
+}
+
+async function toDocx(essay: ExportableEssay): Promise<Buffer> {
+  const header = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new DocxTextRun(essay.title)] })
+  ]
+  if (essay.prompt_text) {
+    header.push(
+      new Paragraph({
+        children: [
+          new DocxTextRun({ text: 'Prompt: ', bold: true }),
+          new DocxTextRun({ text: essay.prompt_text, italics: true })
+        ]
+      })
+    )
+  }
+  header.push(
+    new Paragraph({
+      spacing: { after: 240 },
+      children: [new DocxTextRun({ text: metaLine(essay), color: '666666', size: 20 })]
+    })
+  )
+
+  const body = parseBlocks(essay.content).map((block) => {
+    const children = runsToDocx(block.runs)
+    const indent = block.quote ? { left: 720 } : undefined
+
+    if (block.kind === 'heading') {
+      return new Paragraph({ heading: DOCX_HEADINGS[Math.min(block.level, 5)], indent, children })
+    }
+    if (block.kind === 'list_item' && block.ordered) {
+      return new Paragraph({
+        numbering: { reference: 'essay-ordered', level: Math.min(block.level, 8), instance: block.listId },
+        children
+      })
+    }
+    if (block.kind === 'list_item') {
+      return new Paragraph({ bullet: { level: Math.min(block.level, 8) }, children })
+    }
+    return new Paragraph({ spacing: { after: 200 }, indent, children })
+  })
+
+  const doc = new Document({
+    title: essay.title,
+    numbering: {
+      config: [
+        {
+          reference: 'essay-ordered',
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+          }))
+        }
+      ]
+    },
+    sections: [{ children: [...header, ...body] }]
+  })
+
+  return Packer.toBuffer(doc)
+}
+
+// --- PDF ---
+
+function pdfFont(run: TextRun): string {
+  if (run.bold && run.italic) return 'Times-BoldItalic'
+  if (run.bold) return 'Times-Bold'
+  if (run.italic) return 'Times-Italic'
+  return 'Times-Roman'
+}
+
+function toPdf(essay: ExportableEssay): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 72, info: { Title: essay.title } })
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    doc.font('Times-Bold').fontSize(20).text(essay.title)
+    doc.moveDown(0.5)
+    if (essay.prompt_text) {
+      doc.font('Times-Italic').fontSize(11).text(`Prompt: ${essay.prompt_text}`)
+      doc.moveDown(0.5)
+    }
+    doc.font('Times-Roman').fontSize(10).fillColor('#666666').text(metaLine(essay))
+    doc.fillColor('black').moveDown()
+
+    for (const block of parseBlocks(essay.content)) {
+      const runs = block.runs.filter((run) => run.text)
+      const indent = (block.quote ? 36 : 0) + (block.kind === 'list_item' ? 18 * (block.level + 1) : 0)
+      const size = block.kind === 'heading' ? Math.max(18 - block.level * 2, 12) : 12
+
+      if (block.kind === 'list_item') {
+        runs.unshift({ text: block.ordered ? `${block.index}. ` : '• ', bold: false, italic: false, underline: false, strike: false })
+      }
+
+      runs.forEach((run, i) => {
+        doc
+          .font(block.kind === 'heading' ? 'Times-Bold' : pdfFont(run))
+          .fontSize(size)
+          .text(run.text, 72 + indent, undefined, {
+            continued: i < runs.length - 1,
+            underline: run.underline,
+            strike: run.strike,
+            align: 'left'
+          })
+      })
+      doc.moveDown(block.kind === 'list_item' ? 0.2 : 0.8)
+    }
+
+    doc.end()
+  })
+}
+
+// --- Public API ---
+
+/**
+ * Build a safe file name from an essay title
+ */
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+  return slug || 'essay'
+}
+
+export async function exportEssay(essay: ExportableEssay, format: ExportFormat): Promise<ExportedFile> {
+  let body: Buffer
+  switch (format) {
+    case 'docx':
+      body = await toDocx(essay)
+      break
+    case 'pdf':
+      body = await toPdf(essay)
+      break
+    case 'md':
+      body = Buffer.from(toMarkdown(essay), 'utf8')
+      break
+    case 'txt':
+      body = Buffer.from(toPlainText(essay), 'utf8')
+      break
+  }
+
+  return {
+    filename: `${slugify(essay.title)}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    body
+  }
+}
+
+/**
+ * Export several essays into one zip archive
+ */
+export async function exportEssaysZip(
+  essays: ExportableEssay[],
+  format: ExportFormat,
+  archiveName: string
+): Promise<ExportedFile> {
+  const zip = new JSZip()
+  const used = new Map<string, number>()
+
+  for (const essay of essays) {
+    const file = await exportEssay(essay, format)
+
+    // Two essays with the same title must not overwrite each other in the archive
+    const seen = used.get(file.filename) ?? 0
+    used.set(file.filename, seen + 1)
+    const filename = seen ? file.filename.replace(/(\.\w+)$/, `-${seen + 1}$1`) : file.filename
+
+    zip.file(filename, file.body)
+  }
+
+  return {
+    filename: `${slugify(archiveName)}.zip`,
+    contentType: 'application/zip',
+    body: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  }
+}
@@ -1,15 +1,36 @@
-import type { FastifyPluginAsync } from 'fastify'
-import { requireAuth } from '../../plugins/auth'
-import { EssaysService } from './service'
+import type { FastifyPluginAsync, FastifyReply } from 'fastify'
+import { requireAuth, requireAdmin, requireVerified } from '../../plugins/auth'
+import { EssaysService, EssayConflictError, ExampleEssayError, getEssayEtag } from './service'
 import {
   SearchEssayPromptsQuerySchema,
   SearchUserEssaysQuerySchema,
   SearchExampleEssaysQuerySchema,
   CreateUserEssaySchema,
-  UpdateUserEssaySchema
+  UpdateUserEssaySchema,
+  EssayVersionNumberSchema,
+  ExportEssayQuerySchema,
+  BulkExportEssaysQuerySchema,
+  ReuseCandidatesQuerySchema,
+  SubmitExampleEssaySchema,
+  ModerationQueueQuerySchema,
+  RejectExampleEssaySchema,
+  VoteExampleEssaySchema
 } from './schemas'
+import { diffHtmlWords } from './diff'
+import { exportEssay, exportEssaysZip, type ExportedFile } from './export'
 import { supabase } from '../../config/supabase'
 
+/**
+ * Send an exported file as a download
+ */
+function sendFile(reply: FastifyReply, file: ExportedFile) {
+  return reply
+    .status(200)
+    .header('Content-Type', file.contentType)
+    .header('Content-Disposition', `attachment; filename="${file.filename}"`)
+    .send(file.body)
+}
+
 const routes: FastifyPluginAsync = async (app) => {
   // --- Essay Prompts ---
 
@@ -72,7 +93,10 @@ const routes: FastifyPluginAsync = async (app) => {
 
     try {
       const result = await EssaysService.listUserEssays(userId, validation.data)
-      return reply.status(200).send(result)
+      return reply.status(200).send({
+        ...result,
+        data: await EssaysService.withLimits(result.data)
+      })
     } catch (err) {
       app.log.error(err)
       return reply.status(500).send({
@@ -81,6 +105,64 @@ const routes: FastifyPluginAsync = async (app) => {
     }
   })
 
+  // GET /api/essays/user/export - Zip every essay for one college
+  app.get('/user/export', { preHandler: [requireAuth] }, async (request, reply) => {
+    const userId = request.userId as string
+
+    const validation = BulkExportEssaysQuerySchema.safeParse(request.query)
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Invalid query parameters',
+        details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+      })
+    }
+
+    try {
+      const { user_college_id, format } = validation.data
+      const essays = await EssaysService.listExportableEssaysForCollege(userId, user_college_id)
+      if (!essays.length) {
+        return reply.status(404).send({ error: 'No essays found for this college' })
+      }
+
+      const file = await exportEssaysZip(essays, format, `essays-${format}`)
+      return sendFile(reply, file)
+    } catch (err) {
+      app.log.error(err)
+      return reply.status(500).send({ error: 'Failed to export essays' })
+    }
+  })
+
+  // GET /api/essays/user/:id/export - Download essay as docx, pdf, md or txt
+  app.get<{ Params: { id: string } }>(
+    '/user/:id/export',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id } = request.params
+
+      const validation = ExportEssayQuerySchema.safeParse(request.query)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const essay = await EssaysService.getExportableEssay(userId, id)
+        if (!essay) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+
+        const file = await exportEssay(essay, validation.data.format)
+        return sendFile(reply, file)
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({ error: 'Failed to export essay' })
+      }
+    }
+  )
+
   // GET /api/essays/user/:id - Get specific essay
   app.get<{ Params: { id: string } }>(
     '/user/:id',
@@ -94,7 +176,9 @@ const routes: FastifyPluginAsync = async (app) => {
         if (!essay) {
           return reply.status(404).send({ error: 'Essay not found' })
         }
-        return reply.status(200).send({ essay })
+        const [withLimits] = await EssaysService.withLimits([essay])
+        reply.header('ETag', getEssayEtag(essay))
+        return reply.status(200).send({ essay: withLimits })
       } catch (err) {
         app.log.error(err)
         return reply.status(500).send({
@@ -104,6 +188,60 @@ const routes: FastifyPluginAsync = async (app) => {
     }
   )
 
+  // GET /api/essays/user/:id/analysis - Length limits and writing stats
+  app.get<{ Params: { id: string } }>(
+    '/user/:id/analysis',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id } = request.params
+
+      try {
+        const analysis = await EssaysService.getEssayAnalysis(userId, id)
+        if (!analysis) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        return reply.status(200).send({ analysis })
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to analyze essay'
+        })
+      }
+    }
+  )
+
+  // GET /api/essays/user/:id/reuse-candidates - Similar prompts and overlapping essays
+  app.get<{ Params: { id: string } }>(
+    '/user/:id/reuse-candidates',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id } = request.params
+
+      const validation = ReuseCandidatesQuerySchema.safeParse(request.query)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const candidates = await EssaysService.findReuseCandidates(userId, id, validation.data)
+        if (!candidates) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        return reply.status(200).send(candidates)
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to find reuse candidates'
+        })
+      }
+    }
+  )
+
   // POST /api/essays/user - Create essay
   app.post('/user', { preHandler: [requireAuth] }, async (request, reply) => {
     const userId = request.userId as string
@@ -118,7 +256,8 @@ const routes: FastifyPluginAsync = async (app) => {
 
     try {
       const essay = await EssaysService.createEssay(userId, validation.data)
-      return reply.status(201).send({ essay })
+      const [withLimits] = await EssaysService.withLimits([essay])
+      return reply.status(201).send({ essay: withLimits })
     } catch (err) {
       app.log.error(err)
       return reply.status(500).send({
@@ -147,9 +286,26 @@ const routes: FastifyPluginAsync = async (app) => {
       }
 
       try {
-        const essay = await EssaysService.updateEssay(userId, id, validation.data)
-        return reply.status(200).send({ essay })
+        const essay = await EssaysService.updateEssay(
+          userId,
+          id,
+          validation.data,
+          request.headers['if-match']
+        )
+        if (!essay) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        const [withLimits] = await EssaysService.withLimits([essay])
+        reply.header('ETag', getEssayEtag(essay))
+        return reply.status(200).send({ essay: withLimits })
       } catch (err) {
+        if (err instanceof EssayConflictError) {
+          reply.header('ETag', getEssayEtag(err.current))
+          return reply.status(409).send({
+            error: 'Essay was changed elsewhere',
+            essay: err.current
+          })
+        }
         app.log.error(err)
         return reply.status(500).send({
           error: 'Failed to update essay'
@@ -180,6 +336,173 @@ const routes: FastifyPluginAsync = async (app) => {
 
   // --- Example Essays ---
 
+  // POST /api/essays/user/:id/submit-example - Submit a finished essay to the example library
+  app.post<{ Params: { id: string } }>(
+    '/user/:id/submit-example',
+    { preHandler: [requireAuth, requireVerified] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id } = request.params
+
+      const validation = SubmitExampleEssaySchema.safeParse(request.body ?? {})
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid input',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const example = await EssaysService.submitExampleEssay(userId, id, validation.data)
+        if (!example) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        return reply.status(201).send({ example })
+      } catch (err) {
+        if (err instanceof ExampleEssayError) {
+          return reply.status(err.statusCode).send({ error: err.message })
+        }
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to submit example essay'
+        })
+      }
+    }
+  )
+
+  // GET /api/essays/examples/mine - The student's own submissions and their moderation status
+  app.get('/examples/mine', { preHandler: [requireAuth] }, async (request, reply) => {
+    const userId = request.userId as string
+
+    try {
+      const examples = await EssaysService.listMyExampleEssays(userId)
+      return reply.status(200).send({ examples })
+    } catch (err) {
+      app.log.error(err)
+      return reply.status(500).send({
+        error: 'Failed to fetch example essays'
+      })
+    }
+  })
+
+  // GET /api/essays/examples/moderation - Moderation queue (admin)
+  app.get(
+    '/examples/moderation',
+    { preHandler: [requireAuth, requireAdmin] },
+    async (request, reply) => {
+      const validation = ModerationQueueQuerySchema.safeParse(request.query)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const result = await EssaysService.listModerationQueue(validation.data)
+        return reply.status(200).send(result)
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to fetch moderation queue'
+        })
+      }
+    }
+  )
+
+  // POST /api/essays/examples/:exampleId/approve - Publish a submitted example (admin)
+  app.post<{ Params: { exampleId: string } }>(
+    '/examples/:exampleId/approve',
+    { preHandler: [requireAuth, requireAdmin] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { exampleId } = request.params
+
+      try {
+        const example = await EssaysService.moderateExampleEssay(userId, exampleId, 'approved')
+        if (!example) {
+          return reply.status(404).send({ error: 'Example essay not found' })
+        }
+        return reply.status(200).send({ example })
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to approve example essay'
+        })
+      }
+    }
+  )
+
+  // POST /api/essays/examples/:exampleId/reject - Reject a submitted example (admin)
+  app.post<{ Params: { exampleId: string } }>(
+    '/examples/:exampleId/reject',
+    { preHandler: [requireAuth, requireAdmin] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { exampleId } = request.params
+
+      const validation = RejectExampleEssaySchema.safeParse(request.body ?? {})
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid input',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const example = await EssaysService.moderateExampleEssay(
+          userId,
+          exampleId,
+          'rejected',
+          validation.data.reason
+        )
+        if (!example) {
+          return reply.status(404).send({ error: 'Example essay not found' })
+        }
+        return reply.status(200).send({ example })
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to reject example essay'
+        })
+      }
+    }
+  )
+
+  // POST /api/essays/examples/:exampleId/vote - Upvote (1), downvote (-1) or clear (0)
+  app.post<{ Params: { exampleId: string } }>(
+    '/examples/:exampleId/vote',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { exampleId } = request.params
+
+      const validation = VoteExampleEssaySchema.safeParse(request.body)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid input',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const example = await EssaysService.voteExampleEssay(userId, exampleId, validation.data.value)
+        if (!example) {
+          return reply.status(404).send({ error: 'Example essay not found' })
+        }
+        return reply.status(200).send({ example })
+      } catch (err) {
+        if (err instanceof ExampleEssayError) {
+          return reply.status(err.statusCode).send({ error: err.message })
+        }
+        app.log.error(err)
+        return reply.status(500).send({
+          error: 'Failed to save vote'
+        })
+      }
+    }
+  )
+
   // GET /api/essays/examples/:promptId - Example essays for prompt (with pagination)
   app.get<{ Params: { promptId: string } }>(
     '/examples/:promptId',
@@ -264,15 +587,13 @@ const routes: FastifyPluginAsync = async (app) => {
           return reply.status(404).send({ error: 'Essay not found' })
         }
 
-        const { data: versionData, error } = await supabase
-          .schema('essays')
-          .from('essay_versions')
-          .select('*')
-          .eq('essay_id', id)
-          .eq('version', parseInt(version))
-          .single()
+        const versionNumber = EssayVersionNumberSchema.safeParse(version)
+        if (!versionNumber.success) {
+          return reply.status(400).send({ error: 'Invalid version' })
+        }
 
-        if (error || !versionData) {
+        const versionData = await EssaysService.getEssayVersion(id, versionNumber.data)
+        if (!versionData) {
           return reply.status(404).send({ error: 'Version not found' })
         }
 
@@ -283,6 +604,91 @@ const routes: FastifyPluginAsync = async (app) => {
       }
     }
   )
+
+  //restore a version as the new current content
+  app.post<{ Params: { id: string; version: string } }>(
+    '/user/:id/versions/:version/restore',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id, version } = request.params
+
+      const versionNumber = EssayVersionNumberSchema.safeParse(version)
+      if (!versionNumber.success) {
+        return reply.status(400).send({ error: 'Invalid version' })
+      }
+
+      try {
+        // Verify ownership
+        const essay = await EssaysService.getUserEssayById(userId, id)
+        if (!essay) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+
+        const snapshot = await EssaysService.getEssayVersion(id, versionNumber.data)
+        if (!snapshot) {
+          return reply.status(404).send({ error: 'Version not found' })
+        }
+
+        const restored = await EssaysService.restoreVersion(userId, id, snapshot)
+        if (!restored) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+
+        const [withLimits] = await EssaysService.withLimits([restored])
+        return reply.status(200).send({ essay: withLimits })
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({ error: 'Failed to restore version' })
+      }
+    }
+  )
+
+  //word-level diff between two versions
+  app.get<{ Params: { id: string; a: string; b: string } }>(
+    '/user/:id/versions/:a/diff/:b',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id, a, b } = request.params
+
+      const from = EssayVersionNumberSchema.safeParse(a)
+      const to = EssayVersionNumberSchema.safeParse(b)
+      if (!from.success || !to.success) {
+        return reply.status(400).send({ error: 'Invalid version' })
+      }
+
+      try {
+        // Verify ownership
+        const essay = await EssaysService.getUserEssayById(userId, id)
+        if (!essay) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+
+        const [fromVersion, toVersion] = await Promise.all([
+          EssaysService.getEssayVersion(id, from.data),
+          EssaysService.getEssayVersion(id, to.data)
+        ])
+        if (!fromVersion || !toVersion) {
+          return reply.status(404).send({ error: 'Version not found' })
+        }
+
+        const diff = diffHtmlWords(
+          fromVersion.content as string | null,
+          toVersion.content as string | null
+        )
+
+        return reply.status(200).send({
+          from: from.data,
+          to: to.data,
+          ...diff
+        })
+      } catch (err) {
+        app.log.error(err)
+        return reply.status(500).send({ error: 'Failed to diff versions' })
+      }
+    }
+  )
 }
 
 export default routes
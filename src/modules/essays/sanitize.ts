@@ -0,0 +1,121 @@
+// server-side allowlist sanitizer for TipTap essay HTML
+
+import sanitizeHtml from 'sanitize-html'
+
+/**
+ * Parse an inline style attribute into a map of lowercase property -> value
+ */
+function parseStyle(style: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const decl of (style ?? '').split(';')) {
+    const [prop, ...rest] = decl.split(':')
+    if (prop && rest.length) out[prop.trim().toLowerCase()] = rest.join(':').trim().toLowerCase()
+  }
+  return out
+}
+
+function isBoldWeight(weight: string | undefined): boolean {
+  return weight === 'bold' || weight === 'bolder' || Number(weight) >= 600
+}
+
+/**
+ * Google Docs and Word express marks as styled spans; turn the first mark we
+ * recognise into the TipTap tag, and let everything else unwrap
+ */
+function spanToMark(tagName: string, attribs: sanitizeHtml.Attributes): sanitizeHtml.Tag {
+  const style = parseStyle(attribs.style)
+  if (isBoldWeight(style['font-weight'])) return { tagName: 'strong', attribs: {} }
+  if (style['font-style'] === 'italic') return { tagName: 'em', attribs: {} }
+  if (style['text-decoration']?.includes('underline')) return { tagName: 'u', attribs: {} }
+  if (style['text-decoration']?.includes('line-through')) return { tagName: 's', attribs: {} }
+  return { tagName, attribs: {} }
+}
+
+// TipTap StarterKit nodes and marks, plus Underline, Link, Highlight, TextAlign, Sub/Superscript
+const OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li', 'pre', 'code', 'br', 'hr',
+    'strong', 'em', 'u', 's', 'a', 'mark', 'sub', 'sup'
+  ],
+  allowedAttributes: {
+    a: ['href', 'target', 'rel'],
+    ol: ['start'],
+    p: ['style'],
+    h1: ['style'],
+    h2: ['style'],
+    h3: ['style'],
+    h4: ['style'],
+    h5: ['style'],
+    h6: ['style']
+  },
+  allowedStyles: {
+    '*': { 'text-align': [/^(?:left|right|center|justify)$/] }
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesAppliedToAttributes: ['href'],
+  allowProtocolRelative: false,
+  transformTags: {
+    b: (tagName, attribs) => {
+      // Google Docs wraps whole pastes in <b style="font-weight:normal">
+      const weight = parseStyle(attribs.style)['font-weight']
+      return weight && !isBoldWeight(weight) ? { tagName: 'span', attribs: {} } : { tagName: 'strong', attribs: {} }
+    },
+    i: 'em',
+    strike: 's',
+    del: 's',
+    div: 'p',
+    span: spanToMark,
+    a: (tagName, attribs) => ({
+      tagName,
+      attribs: { href: attribs.href ?? '', target: '_blank', rel: 'noopener noreferrer nofollow' }
+    })
+  }
+}
+
+// Pre-pass that keeps every tag so exclusiveFilter sees Word's namespaced
+// elements. <o:p> only ever holds Word's paragraph-spacing &nbsp;, so it goes
+// with its contents, as does any other namespaced element with no text;
+// the rest (smart tags like <st1:City>, <w:sdt> content controls) hold the
+// student's words and are unwrapped by the main pass like any unknown tag
+const WORD_NAMESPACE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: false,
+  allowedAttributes: false,
+  allowVulnerableTags: true,
+  exclusiveFilter: (frame) =>
+    frame.tag.includes(':') && (frame.tag.toLowerCase() === 'o:p' || !frame.text.replace(/&nbsp;|\u00a0/g, '').trim())
+}
+
+// Whitespace right inside or between block tags (never between inline marks)
+const BLOCK_TAG_SPACE = /\s*(<\/?(?:p|h[1-6]|blockquote|ul|ol|li|pre|hr|br)\b[^>]*>)\s*/g
+
+/**
+ * Sanitize and normalize essay HTML: allowlisted tags only, no scripts,
+ * event handlers or javascript: URLs, and paste whitespace cleaned up
+ */
+export function sanitizeEssayHtml(html: string): string {
+  const clean = sanitizeHtml(
+    sanitizeHtml(
+      html
+        .replace(/[\u200B-\u200D\uFEFF]/g, '') // zero-width characters
+        .replace(/\r\n?/g, '\n'),
+      WORD_NAMESPACE_OPTIONS
+    ),
+    OPTIONS
+  )
+
+  // Collapse paste whitespace outside <pre>, where it is meaningful
+  return clean
+    .split(/(<pre>[\s\S]*?<\/pre>)/)
+    .map((part) =>
+      part.startsWith('<pre>')
+        ? part
+        : part
+            .replace(/&nbsp;/g, ' ')
+            .replace(/\s+/g, ' ')
+            .replace(BLOCK_TAG_SPACE, '$1')
+            .replace(/<p>\s*<\/p>(?:<p>\s*<\/p>)+/g, '<p></p>') // runs of empty paragraphs
+    )
+    .join('')
+    .replace(/^(?:<p>\s*<\/p>)+|(?:<p>\s*<\/p>)+$/g, '') // leading/trailing empty paragraphs
+    .trim()
+}
@@ -31,6 +31,8 @@ export const SearchUserEssaysQuerySchema = z.object({
   status: z.enum(['draft', 'in_review', 'final', 'submitted']).optional(), // FIXED: match DB
   user_college_id: z.uuid().optional(),
   prompt_id: z.uuid().optional(),
+  q: z.string().trim().min(1).max(200).optional(), // full-text search over title, content and notes
+  include_versions: z.enum(['true', 'false']).transform((v) => v === 'true').optional(), // also search older versions
 })
 
 export type SearchUserEssaysQuery = z.infer<typeof SearchUserEssaysQuerySchema>
@@ -60,10 +62,38 @@ export const UpdateUserEssaySchema = z.object({
   status: z.enum(['draft', 'in_review', 'final', 'submitted']).optional(), // FIXED
   ai_suggestions_enabled: z.boolean().optional(),
   // REMOVED: word_count (auto-calculated server-side)
+  version: z.number().int().min(1).optional(), // expected current version; 409 if it moved on
 })
 
 export type UpdateUserEssayInput = z.infer<typeof UpdateUserEssaySchema>
 
+// --- Essay Versions ---
+
+export const EssayVersionNumberSchema = z.coerce.number().int().min(1)
+
+// --- Essay Reuse ---
+
+export const ReuseCandidatesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10).optional(),
+})
+
+export type ReuseCandidatesQuery = z.infer<typeof ReuseCandidatesQuerySchema>
+
+// --- Essay Export ---
+
+const exportFormatSchema = z.enum(['docx', 'pdf', 'md', 'txt'])
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>
+
+export const ExportEssayQuerySchema = z.object({
+  format: exportFormatSchema.default('docx'),
+})
+
+export const BulkExportEssaysQuerySchema = z.object({
+  user_college_id: z.uuid(),
+  format: exportFormatSchema.default('docx'),
+})
+
 
 export const SearchExampleEssaysQuerySchema = z.object({
   limit: limitSchema,
@@ -71,4 +101,27 @@ export const SearchExampleEssaysQuerySchema = z.object({
   sort: z.enum(['upvotes', 'created_at']).default('upvotes').optional(),
 })
 
-export type SearchExampleEssaysQuery = z.infer<typeof SearchExampleEssaysQuerySchema>
\ No newline at end of file
+export type SearchExampleEssaysQuery = z.infer<typeof SearchExampleEssaysQuerySchema>
+
+export const SubmitExampleEssaySchema = z.object({
+  anonymize: z.boolean().default(true).optional(), // redact the student's name and school names
+  redact_terms: z.array(z.string().min(1).max(100)).max(20).optional(), // extra names/places to hide
+})
+
+export type SubmitExampleEssayInput = z.infer<typeof SubmitExampleEssaySchema>
+
+export const ModerationQueueQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).default('pending').optional(),
+  limit: limitSchema,
+  offset: offsetSchema,
+})
+
+export type ModerationQueueQuery = z.infer<typeof ModerationQueueQuerySchema>
+
+export const RejectExampleEssaySchema = z.object({
+  reason: z.string().max(1000).optional(),
+})
+
+export const VoteExampleEssaySchema = z.object({
+  value: z.union([z.literal(1), z.literal(-1), z.literal(0)]), // 0 clears the vote
+})
@@ -0,0 +1,112 @@
+// ranking and highlighted snippets for essay search
+
+import { extractWords, htmlToPlainText, STOPWORDS } from './analysis'
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 80
+
+// How much a match counts in each field
+const FIELD_WEIGHTS = { title: 3, content: 1, notes: 0.5 } as const
+
+type SearchField = keyof typeof FIELD_WEIGHTS
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * The query's content words as search stems. Suffixes are stripped, so
+ * "bakeries" becomes "baker" and still finds "bakery".
+ */
+export function queryStems(query: string): string[] {
+  return [...new Set(
+    extractWords(query.toLowerCase())
+      .filter((word) => !STOPWORDS.has(word))
+      .map((word) => word.replace(/['’]s$/, ''))
+      .map((word) => word.length > 4 ? word.replace(/(?:ies|es|s|y|ing|ed)$/, '') : word)
+  )]
+}
+
+/**
+ * Word-prefix matcher for the query's stems, used to score and highlight
+ */
+export function buildMatcher(query: string): RegExp | null {
+  const stems = queryStems(query)
+  if (!stems.length) return null
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${stems.map(escapeRegex).join('|')})[\\p{L}\\p{N}]*`, 'giu')
+}
+
+/**
+ * The same word-prefix match as a Postgres regex (for ~* / imatch), so the
+ * database returns exactly the rows buildMatcher would score
+ */
+export function buildPgPattern(query: string): string | null {
+  const stems = queryStems(query)
+  if (!stems.length) return null
+
+  return `(^|[^[:alnum:]])(${stems.map(escapeRegex).join('|')})`
+}
+
+/**
+ * Plain-text window around the first match, HTML-escaped, with every match wrapped in <mark>
+ */
+export function highlightSnippet(text: string, matcher: RegExp): string | null {
+  matcher.lastIndex = 0
+  const first = matcher.exec(text)
+  if (!first) return null
+
+  const start = Math.max(0, first.index - SNIPPET_CONTEXT)
+  const end = Math.min(text.length, first.index + first[0].length + SNIPPET_CONTEXT)
+  const window = text.slice(start, end)
+
+  let out = ''
+  let last = 0
+  matcher.lastIndex = 0
+  for (const match of window.matchAll(matcher)) {
+    out += escapeHtml(window.slice(last, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`
+    last = match.index! + match[0].length
+  }
+  out += escapeHtml(window.slice(last))
+
+  return (start > 0 ? '…' : '') + out.replace(/\n/g, ' ') + (end < text.length ? '…' : '')
+}
+
+/**
+ * Score a document's fields against the query and pick the best snippet
+ */
+export function scoreDocument(
+  fields: Partial<Record<SearchField, string | null | undefined>>,
+  matcher: RegExp
+) {
+  let score = 0
+  let snippet: string | null = null
+  const matchedIn: SearchField[] = []
+
+  for (const field of ['title', 'content', 'notes'] as SearchField[]) {
+    const raw = fields[field]
+    if (!raw) continue
+
+    const text = field === 'content' ? htmlToPlainText(raw) : raw
+    const hits = text.match(matcher)?.length ?? 0
+    if (!hits) continue
+
+    matchedIn.push(field)
+    // Diminishing returns, so one long essay doesn't swamp a matching title
+    score += FIELD_WEIGHTS[field] * (1 + Math.log(hits))
+
+    if (!snippet && field !== 'title') snippet = highlightSnippet(text, matcher)
+  }
+
+  if (!snippet && fields.title) snippet = highlightSnippet(fields.title, matcher)
+
+  return {
+    score: Number(score.toFixed(3)),
+    matched_in: matchedIn,
+    snippet
+  }
+}
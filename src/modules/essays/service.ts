@@ -4,8 +4,18 @@ import type {
   SearchUserEssaysQuery,
   SearchExampleEssaysQuery,
   CreateUserEssayInput,
-  UpdateUserEssayInput
+  UpdateUserEssayInput,
+  ReuseCandidatesQuery,
+  SubmitExampleEssayInput,
+  ModerationQueueQuery
 } from './schemas'
+import { getUser } from '../../lib/helpers'
+import type { ExportableEssay } from './export'
+import { analyzeEssay, getLimitStatus } from './analysis'
+import { rankByTfIdf, shingles, shingleOverlap } from './similarity'
+import { buildMatcher, buildPgPattern, scoreDocument } from './search'
+import { anonymizeHtml } from './anonymize'
+import { sanitizeEssayHtml } from './sanitize'
 
 export interface PaginatedResponse<T> {
   data: T[]
@@ -14,6 +24,10 @@ export interface PaginatedResponse<T> {
   offset: number
 }
 
+export interface EssaySearchResponse extends PaginatedResponse<Record<string, unknown>> {
+  version_matches?: Record<string, unknown>[]
+}
+
 /**
  * Count words in HTML/TipTap content by stripping tags and counting words
  */
@@ -23,6 +37,66 @@ function countWordsFromHtml(html: string | null | undefined): number {
   return stripped ? stripped.split(/\s+/).length : 0
 }
 
+// Most older-version matches returned by a search with include_versions
+const VERSION_SEARCH_LIMIT = 50
+
+// How many times updateEssay re-reads and retries when a concurrent save wins the version bump
+const MAX_VERSION_ATTEMPTS = 5
+
+/**
+ * Thrown when a save was based on a stale copy of the essay
+ */
+export class EssayConflictError extends Error {
+  current: Record<string, unknown>
+
+  constructor(current: Record<string, unknown>) {
+    super('Essay was changed since it was loaded')
+    this.name = 'EssayConflictError'
+    this.current = current
+  }
+}
+
+/**
+ * ETag for a user essay, derived from its version and last update time
+ */
+export function getEssayEtag(essay: Record<string, unknown>): string {
+  const updatedAt = Date.parse(essay.updated_at as string) || 0
+  return `"${essay.version ?? 0}-${updatedAt}"`
+}
+
+/**
+ * Check an If-Match header (a list of ETags, or *) against the current ETag
+ */
+function etagMatches(ifMatch: string, etag: string): boolean {
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag)
+}
+
+/**
+ * Thrown when an example essay action is understood but not allowed; carries
+ * the HTTP status the route should answer with
+ */
+export class ExampleEssayError extends Error {
+  statusCode: number
+
+  constructor(message: string, statusCode: number) {
+    super(message)
+    this.name = 'ExampleEssayError'
+    this.statusCode = statusCode
+  }
+}
+
+/**
+ * Strip submitter and moderation details from an example essay before it is
+ * shown to other students, so anonymized examples stay anonymous
+ */
+function publicExample(example: Record<string, unknown>): Record<string, unknown> {
+  const { submitted_by, source_essay_id, moderation_note, moderated_by, moderated_at, ...rest } = example
+  return rest
+}
+
 export class EssaysService {
   // --- Essay Prompts ---
 
@@ -85,12 +159,46 @@ export class EssaysService {
     return data as Record<string, unknown>
   }
 
+  /**
+   * Fetch the prompts referenced by a set of essays in one query, keyed by id
+   */
+  private static async getPromptsForEssays(
+    essays: Record<string, unknown>[],
+    columns: string
+  ): Promise<Map<string, Record<string, unknown>>> {
+    const promptIds = [...new Set(essays.map((e) => e.prompt_id).filter(Boolean))] as string[]
+    const prompts = new Map<string, Record<string, unknown>>()
+    if (!promptIds.length) return prompts
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_prompts')
+      .select(columns)
+      .in('id', promptIds)
+
+    if (error) {
+      throw new Error(`Failed to fetch essay prompts: ${error.message}`)
+    }
+
+    for (const prompt of (data ?? []) as unknown as Record<string, unknown>[]) {
+      prompts.set(prompt.id as string, prompt)
+    }
+    return prompts
+  }
+
   // --- User Essays ---
 
+  /**
+   * List or search a student's essays. includeNotes: false keeps the private
+   * notes out of search matching and snippets, for viewers other than the student.
+   */
   static async listUserEssays(
     userId: string,
-    opts: SearchUserEssaysQuery
-  ): Promise<PaginatedResponse<Record<string, unknown>>> {
+    opts: SearchUserEssaysQuery,
+    searchOpts: { includeNotes?: boolean } = {}
+  ): Promise<EssaySearchResponse> {
+    if (opts.q) return this.searchUserEssays(userId, opts, searchOpts.includeNotes ?? true)
+
     const { limit = 20, offset = 0, status, user_college_id, prompt_id } = opts
 
     let q = supabase
@@ -119,6 +227,120 @@ export class EssaysService {
     }
   }
 
+  /**
+   * Search over the student's essays (title, stripped content and notes).
+   * Postgres filters with the same word-prefix pattern used to rank, so only
+   * matching essays are loaded and scored. With include_versions, older
+   * snapshots are searched the same way.
+   */
+  private static async searchUserEssays(
+    userId: string,
+    opts: SearchUserEssaysQuery,
+    includeNotes: boolean
+  ): Promise<EssaySearchResponse> {
+    const { q: query = '', limit = 20, offset = 0, status, user_college_id, prompt_id, include_versions } = opts
+    const matcher = buildMatcher(query)
+    const pattern = buildPgPattern(query)
+
+    // Only stopwords: nothing to search for
+    if (!matcher || !pattern) {
+      return { data: [], total: 0, limit, offset, ...(include_versions ? { version_matches: [] } : {}) }
+    }
+
+    // Quoted so the pattern's parentheses and commas survive the or= filter
+    const quoted = `"${pattern}"`
+
+    let q = supabase
+      .schema('essays')
+      .from('user_essays')
+      .select('*')
+      .eq('user_id', userId)
+      .or([`title.imatch.${quoted}`, `search_text.imatch.${quoted}`, ...(includeNotes ? [`notes.imatch.${quoted}`] : [])].join(','))
+
+    if (status) q = q.eq('status', status)
+    if (user_college_id) q = q.eq('user_college_id', user_college_id)
+    if (prompt_id) q = q.eq('prompt_id', prompt_id)
+
+    const { data, error } = await q
+
+    if (error) {
+      throw new Error(`Failed to search user essays: ${error.message}`)
+    }
+
+    const ranked = ((data ?? []) as Record<string, unknown>[])
+      .map((essay): Record<string, unknown> & { search: ReturnType<typeof scoreDocument> } => ({
+        ...essay,
+        search: scoreDocument(
+          {
+            title: essay.title as string,
+            content: essay.content as string | null,
+            notes: includeNotes ? (essay.notes as string | null) : null
+          },
+          matcher
+        )
+      }))
+      .sort((a, b) =>
+        b.search.score - a.search.score ||
+        String(b.updated_at).localeCompare(String(a.updated_at))
+      )
+
+    const result: EssaySearchResponse = {
+      data: ranked.slice(offset, offset + limit),
+      total: ranked.length,
+      limit,
+      offset
+    }
+
+    if (include_versions) {
+      // A version can match even when its essay's current text doesn't
+      let essaysQuery = supabase
+        .schema('essays')
+        .from('user_essays')
+        .select('id, title, version')
+        .eq('user_id', userId)
+
+      if (status) essaysQuery = essaysQuery.eq('status', status)
+      if (user_college_id) essaysQuery = essaysQuery.eq('user_college_id', user_college_id)
+      if (prompt_id) essaysQuery = essaysQuery.eq('prompt_id', prompt_id)
+
+      const { data: essays, error: essaysError } = await essaysQuery
+
+      if (essaysError) {
+        throw new Error(`Failed to search user essays: ${essaysError.message}`)
+      }
+
+      const current = new Map(((essays ?? []) as Record<string, unknown>[]).map((essay) => [essay.id as string, essay]))
+      result.version_matches = []
+
+      if (current.size) {
+        const { data: versions, error: versionsError } = await supabase
+          .schema('essays')
+          .from('essay_versions')
+          .select('essay_id, version, content, word_count, created_at')
+          .in('essay_id', [...current.keys()])
+          .filter('search_text', 'imatch', pattern)
+          .order('created_at', { ascending: false })
+          .limit(VERSION_SEARCH_LIMIT)
+
+        if (versionsError) {
+          throw new Error(`Failed to search essay versions: ${versionsError.message}`)
+        }
+
+        result.version_matches = ((versions ?? []) as Record<string, unknown>[])
+          // The current version is already covered by the essay itself
+          .filter((v) => v.version !== current.get(v.essay_id as string)?.version)
+          .map(({ content, ...version }) => ({
+            ...version,
+            title: current.get(version.essay_id as string)?.title,
+            search: scoreDocument({ content: content as string | null }, matcher)
+          }))
+          .sort((a, b) => b.search.score - a.search.score)
+      }
+    }
+
+    return result
+  }
+
   static async getUserEssayById(
     userId: string,
     essayId: string
@@ -139,8 +361,6 @@ export class EssaysService {
     return data as Record<string, unknown>
   }
 
-  // service.ts - Add version tracking
-
   static async createEssay(
     userId: string,
     input: CreateUserEssayInput
@@ -149,7 +369,8 @@ export class EssaysService {
       Object.entries(input).filter(([_, v]) => v !== undefined)
     ) as Record<string, unknown>
 
-    const content = (cleanData.content as string) ?? ''
+    const content = sanitizeEssayHtml((cleanData.content as string) ?? '')
+    if (cleanData.content !== undefined) cleanData.content = content
     const word_count = countWordsFromHtml(content)
 
     const { data, error } = await supabase
@@ -183,72 +404,178 @@ export class EssaysService {
     return data as Record<string, unknown>
   }
 
+  /**
+   * Update an essay. A content change bumps `version` and snapshots the new
+   * content into essay_versions; unchanged content never creates a snapshot.
+   * The version bump is guarded on the version we read, so concurrent saves
+   * retry instead of claiming the same version number.
+   *
+   * When the caller sends an expected `version` or an If-Match ETag, the save
+   * only applies to that exact copy; otherwise EssayConflictError is thrown
+   * with the server copy.
+   */
   static async updateEssay(
     userId: string,
     essayId: string,
-    input: UpdateUserEssayInput
-  ): Promise<Record<string, unknown>> {
+    input: UpdateUserEssayInput,
+    ifMatch?: string
+  ): Promise<Record<string, unknown> | null> {
+    const { version: expectedVersion, ...fields } = input
+
     const cleanData = Object.fromEntries(
-      Object.entries(input).filter(([_, v]) => v !== undefined)
+      Object.entries(fields).filter(([_, v]) => v !== undefined)
     ) as Record<string, unknown>
 
-    const content = cleanData.content as string | undefined
+    const content =
+      cleanData.content !== undefined ? sanitizeEssayHtml(cleanData.content as string) : undefined
 
-    // Auto-calculate word count if content changed
+    // Store the sanitized HTML and auto-calculate word count if content changed
     if (content !== undefined) {
+      cleanData.content = content
       cleanData.word_count = countWordsFromHtml(content)
     }
 
-    // ADDED: Get current version
-    // not used for now, will implement in better way later
-    /*
-    const { data: currentEssay } = await supabase
-      .schema('essays')
-      .from('user_essays')
-      .select('version, content')
-      .eq('id', essayId)
-      .eq('user_id', userId)
-      .single()
+    for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+      const current = await this.getUserEssayById(userId, essayId)
+      if (!current) return null
+
+      const currentVersion = (current.version as number | null) ?? null
+
+      if (
+        (expectedVersion !== undefined && expectedVersion !== currentVersion) ||
+        (ifMatch !== undefined && !etagMatches(ifMatch, getEssayEtag(current)))
+      ) {
+        throw new EssayConflictError(current)
+      }
+
+      const shouldSaveVersion = content !== undefined && content !== current.content
+      const newVersion = (currentVersion ?? 0) + 1
+
+      let q = supabase
+        .schema('essays')
+        .from('user_essays')
+        .update({
+          ...cleanData,
+          ...(shouldSaveVersion ? { version: newVersion } : {}),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', essayId)
+        .eq('user_id', userId)
+
+      if (shouldSaveVersion || expectedVersion !== undefined || ifMatch !== undefined) {
+        q = currentVersion === null ? q.is('version', null) : q.eq('version', currentVersion)
+      }
+      if (ifMatch !== undefined) {
+        q = q.eq('updated_at', current.updated_at as string)
+      }
+
+      const { data, error } = await q.select('*').maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to update essay: ${error.message}`)
+      }
+
+      // Another save got in first; re-read and try again (or report the conflict)
+      if (!data) continue
+
+      if (shouldSaveVersion) {
+        const { error: versionError } = await supabase
+          .schema('essays')
+          .from('essay_versions')
+          .insert({
+            essay_id: essayId,
+            version: newVersion,
+            content,
+            word_count: cleanData.word_count as number
+          })
+
+        if (versionError) {
+          throw new Error(`Failed to save essay version: ${versionError.message}`)
+        }
+      }
+
+      return data as Record<string, unknown>
+    }
 
-    const newVersion = (currentEssay?.version ?? 0) + 1
-    const shouldSaveVersion = content !== undefined && content !== currentEssay?.content
-    */
+    throw new Error('Failed to update essay: too many concurrent saves')
+  }
 
+  /**
+   * Attach the prompt's word/character limits and the essay's over/under
+   * status to each essay
+   */
+  static async withLimits(
+    essays: Record<string, unknown>[]
+  ): Promise<Record<string, unknown>[]> {
+    const prompts = await this.getPromptsForEssays(essays, 'id, word_limit, character_limit')
+
+    return essays.map((essay) => {
+      const prompt = prompts.get(essay.prompt_id as string)
+      const content = essay.content as string | null
+      return {
+        ...essay,
+        limits: getLimitStatus(
+          content,
+          (essay.word_count as number | null) ?? countWordsFromHtml(content),
+          {
+            word_limit: (prompt?.word_limit as number | null) ?? null,
+            character_limit: (prompt?.character_limit as number | null) ?? null
+          }
+        )
+      }
+    })
+  }
+
+  static async getEssayAnalysis(
+    userId: string,
+    essayId: string
+  ): Promise<Record<string, unknown> | null> {
+    const essay = await this.getUserEssayById(userId, essayId)
+    if (!essay) return null
+
+    const [withLimits] = await this.withLimits([essay])
+    return {
+      ...analyzeEssay(essay.content as string | null),
+      limits: withLimits.limits
+    }
+  }
+
+  // --- Essay Versions ---
+
+  static async getEssayVersion(
+    essayId: string,
+    version: number
+  ): Promise<Record<string, unknown> | null> {
     const { data, error } = await supabase
       .schema('essays')
-      .from('user_essays')
-      .update({
-        ...cleanData,
-        version: 1, // initial version
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', essayId)
-      .eq('user_id', userId)
-      .select('*')
+      .from('essay_versions')
+      .select('essay_id, version, content, word_count, created_at')
+      .eq('essay_id', essayId)
+      .eq('version', version)
       .single()
 
     if (error) {
-      throw new Error(`Failed to update essay: ${error.message}`)
-    }
-
-    // ADDED: Save version history if content changed
-    /*
-    if (shouldSaveVersion && content !== undefined) {
-      await supabase
-        .schema('essays')
-        .from('essay_versions')
-        .insert({
-          essay_id: essayId,
-          version: newVersion,
-          content,
-          word_count: cleanData.word_count as number
-        })
+      if (error.code === 'PGRST116') return null
+      throw new Error(`Failed to fetch essay version: ${error.message}`)
     }
-    */
 
     return data as Record<string, unknown>
   }
 
+  /**
+   * Make an old snapshot the current content. Goes through updateEssay so the
+   * restore is recorded as a new version rather than rewriting history.
+   */
+  static async restoreVersion(
+    userId: string,
+    essayId: string,
+    snapshot: Record<string, unknown>
+  ): Promise<Record<string, unknown> | null> {
+    return this.updateEssay(userId, essayId, {
+      content: (snapshot.content as string | null) ?? ''
+    })
+  }
+
   static async deleteEssay(userId: string, essayId: string): Promise<void> {
     const { error } = await supabase
       .schema('essays')
@@ -262,6 +589,147 @@ export class EssaysService {
     }
   }
 
+  // --- Essay Reuse ---
+
+  /**
+   * Rank the other prompts at the student's colleges, started or not, by
+   * similarity to this essay's prompt, and their other essays by textual overlap with this one
+   */
+  static async findReuseCandidates(
+    userId: string,
+    essayId: string,
+    opts: ReuseCandidatesQuery
+  ): Promise<Record<string, unknown> | null> {
+    const { limit = 10 } = opts
+
+    const essay = await this.getUserEssayById(userId, essayId)
+    if (!essay) return null
+
+    // Page through every essay the student has
+    const essays: Record<string, unknown>[] = []
+    for (let offset = 0; ; offset += 100) {
+      const page = await this.listUserEssays(userId, { limit: 100, offset })
+      essays.push(...page.data)
+      if (essays.length >= page.total || page.data.length === 0) break
+    }
+
+    const others = essays.filter((e) => e.id !== essayId)
+    const prompts = await this.getPromptsForEssays(
+      [essay, ...others],
+      'id, college_id, prompt_label, prompt_text, prompt_type, year'
+    )
+
+    // The student's colleges are the ones their essays' prompts belong to; add
+    // every active prompt at those colleges so unstarted prompts are candidates too
+    const collegeIds = new Set(
+      [...prompts.values()].map((p) => p.college_id).filter(Boolean) as string[]
+    )
+    for (const collegeId of collegeIds) {
+      for (let offset = 0; ; offset += 100) {
+        const page = await this.listPrompts({ college_id: collegeId, is_active: true, limit: 100, offset })
+        for (const prompt of page.data) {
+          if (!prompts.has(prompt.id as string)) prompts.set(prompt.id as string, prompt)
+        }
+        if (offset + page.data.length >= page.total || page.data.length === 0) break
+      }
+    }
+
+    // Prompts: TF-IDF over prompt text, against every prompt at the student's colleges
+    const promptText = (p: Record<string, unknown>) =>
+      `${(p.prompt_label as string | null) ?? ''} ${(p.prompt_text as string | null) ?? ''}`
+    const currentPrompt = prompts.get(essay.prompt_id as string)
+    const candidatePrompts = [...prompts.values()].filter((p) => p.id !== essay.prompt_id)
+
+    const promptCandidates = currentPrompt
+      ? rankByTfIdf(promptText(currentPrompt), candidatePrompts.map(promptText))
+          .map((score, i) => ({
+            prompt: candidatePrompts[i],
+            essay_ids: others.filter((e) => e.prompt_id === candidatePrompts[i].id).map((e) => e.id),
+            score: Number(score.toFixed(3))
+          }))
+          .filter((c) => c.score > 0)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit)
+      : []
+
+    // Essays: word shingle overlap with this essay's content
+    const current = shingles(essay.content as string | null)
+    const essayCandidates = others
+      .map((other) => {
+        const { overlap, containment } = shingleOverlap(current, shingles(other.content as string | null))
+        return {
+          essay: {
+            id: other.id,
+            title: other.title,
+            prompt_id: other.prompt_id,
+            user_college_id: other.user_college_id,
+            status: other.status,
+            word_count: other.word_count,
+            updated_at: other.updated_at
+          },
+          overlap: Number(overlap.toFixed(3)),
+          containment: Number(containment.toFixed(3))
+        }
+      })
+      .filter((c) => c.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap)
+      .slice(0, limit)
+
+    return {
+      prompt_candidates: promptCandidates,
+      essay_candidates: essayCandidates
+    }
+  }
+
+  // --- Essay Export ---
+
+  /**
+   * Attach each essay's prompt text, fetched in one query
+   */
+  private static async toExportable(
+    essays: Record<string, unknown>[]
+  ): Promise<ExportableEssay[]> {
+    const prompts = await this.getPromptsForEssays(essays, 'id, prompt_text')
+
+    return essays.map((essay) => ({
+      title: essay.title as string,
+      prompt_text: (prompts.get(essay.prompt_id as string)?.prompt_text as string | undefined) ?? null,
+      word_count: (essay.word_count as number | null) ?? countWordsFromHtml(essay.content as string),
+      updated_at: (essay.updated_at as string | null) ?? null,
+      content: (essay.content as string | null) ?? null
+    }))
+  }
+
+  static async getExportableEssay(
+    userId: string,
+    essayId: string
+  ): Promise<ExportableEssay | null> {
+    const essay = await this.getUserEssayById(userId, essayId)
+    if (!essay) return null
+
+    const [exportable] = await this.toExportable([essay])
+    return exportable
+  }
+
+  static async listExportableEssaysForCollege(
+    userId: string,
+    userCollegeId: string
+  ): Promise<ExportableEssay[]> {
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('user_essays')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('user_college_id', userCollegeId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch user essays: ${error.message}`)
+    }
+
+    return this.toExportable((data ?? []) as Record<string, unknown>[])
+  }
+
   // --- Example Essays ---
 
   static async listExampleEssaysByPrompt(
@@ -270,22 +738,139 @@ export class EssaysService {
   ): Promise<PaginatedResponse<Record<string, unknown>>> {
     const { limit = 20, offset = 0, sort = 'upvotes' } = opts
 
-    const orderColumn = sort === 'upvotes' ? 'upvotes' : 'created_at'
-    const ascending = sort === 'upvotes' ? false : false // both descending
-
-    const { data, error, count } = await supabase
+    let q = supabase
       .schema('essays')
       .from('example_essays')
       .select('*', { count: 'exact' })
       .eq('prompt_id', promptId)
       .eq('is_public', true)
-      .order(orderColumn, { ascending })
+
+    // 'upvotes' ranks by net score (upvotes minus downvotes), newest first on ties
+    if (sort === 'upvotes') {
+      q = q.order('score', { ascending: false })
+    }
+
+    const { data, error, count } = await q
+      .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1)
 
     if (error) {
       throw new Error(`Failed to fetch example essays: ${error.message}`)
     }
 
+    return {
+      data: ((data ?? []) as Record<string, unknown>[]).map(publicExample),
+      total: count ?? 0,
+      limit,
+      offset
+    }
+  }
+
+  /**
+   * Submit one of the student's finished essays to the example library.
+   * It waits in the moderation queue until an admin approves it.
+   */
+  static async submitExampleEssay(
+    userId: string,
+    essayId: string,
+    input: SubmitExampleEssayInput
+  ): Promise<Record<string, unknown> | null> {
+    const essay = await this.getUserEssayById(userId, essayId)
+    if (!essay) return null
+
+    if (essay.status !== 'final' && essay.status !== 'submitted') {
+      throw new ExampleEssayError('Only final or submitted essays can be shared as examples', 400)
+    }
+    if (!essay.prompt_id) {
+      throw new ExampleEssayError('Essay must be linked to a prompt to be shared as an example', 400)
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .select('id')
+      .eq('source_essay_id', essayId)
+      .in('moderation_status', ['pending', 'approved'])
+      .limit(1)
+
+    if (existingError) {
+      throw new Error(`Failed to check example essays: ${existingError.message}`)
+    }
+    if (existing && existing.length) {
+      throw new ExampleEssayError('This essay has already been submitted', 409)
+    }
+
+    const { anonymize = true, redact_terms = [] } = input
+    let content = sanitizeEssayHtml((essay.content as string | null) ?? '')
+    let title = essay.title as string
+
+    if (anonymize) {
+      const user = await getUser(userId)
+      const redact = { names: [user?.name], terms: redact_terms }
+      content = anonymizeHtml(content, redact)
+      title = anonymizeHtml(title, redact)
+    }
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .insert({
+        prompt_id: essay.prompt_id,
+        title,
+        content,
+        word_count: countWordsFromHtml(content),
+        is_public: false,
+        upvotes: 0,
+        downvotes: 0,
+        moderation_status: 'pending',
+        is_anonymized: anonymize,
+        submitted_by: userId,
+        source_essay_id: essayId
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to submit example essay: ${error.message}`)
+    }
+
+    return data as Record<string, unknown>
+  }
+
+  static async listMyExampleEssays(userId: string): Promise<Record<string, unknown>[]> {
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .select('*')
+      .eq('submitted_by', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch example essays: ${error.message}`)
+    }
+
+    return (data ?? []) as Record<string, unknown>[]
+  }
+
+  // --- Example Essay Moderation ---
+
+  static async listModerationQueue(
+    opts: ModerationQueueQuery
+  ): Promise<PaginatedResponse<Record<string, unknown>>> {
+    const { status = 'pending', limit = 20, offset = 0 } = opts
+
+    const { data, error, count } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .select('*', { count: 'exact' })
+      .eq('moderation_status', status)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch moderation queue: ${error.message}`)
+    }
+
     return {
       data: (data ?? []) as Record<string, unknown>[],
       total: count ?? 0,
@@ -293,4 +878,105 @@ export class EssaysService {
       offset
     }
   }
+
+  /**
+   * Approve (publish) or reject a submitted example essay
+   */
+  static async moderateExampleEssay(
+    adminId: string,
+    exampleId: string,
+    decision: 'approved' | 'rejected',
+    note?: string
+  ): Promise<Record<string, unknown> | null> {
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .update({
+        moderation_status: decision,
+        is_public: decision === 'approved',
+        moderation_note: note ?? null,
+        moderated_by: adminId,
+        moderated_at: new Date().toISOString()
+      })
+      .eq('id', exampleId)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to moderate example essay: ${error.message}`)
+    }
+
+    return data as Record<string, unknown> | null
+  }
+
+  // --- Example Essay Votes ---
+
+  /**
+   * Record the user's vote (1 up, -1 down, 0 to clear) and refresh the
+   * example's vote counts
+   */
+  static async voteExampleEssay(
+    userId: string,
+    exampleId: string,
+    value: -1 | 0 | 1
+  ): Promise<Record<string, unknown> | null> {
+    const { data: example, error: exampleError } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .select('id, submitted_by')
+      .eq('id', exampleId)
+      .eq('is_public', true)
+      .maybeSingle()
+
+    if (exampleError) {
+      throw new Error(`Failed to fetch example essay: ${exampleError.message}`)
+    }
+    if (!example) return null
+    if (example.submitted_by === userId) {
+      throw new ExampleEssayError('You cannot vote on your own example', 403)
+    }
+
+    const votes = supabase.schema('essays').from('example_essay_votes')
+    const { error: voteError } = value === 0
+      ? await votes.delete().eq('example_essay_id', exampleId).eq('user_id', userId)
+      : await votes.upsert(
+          { example_essay_id: exampleId, user_id: userId, value, updated_at: new Date().toISOString() },
+          { onConflict: 'example_essay_id,user_id' }
+        )
+
+    if (voteError) {
+      throw new Error(`Failed to save vote: ${voteError.message}`)
+    }
+
+    // Recount from the votes table so the stored counts can't drift
+    const countVotes = async (v: 1 | -1) => {
+      const { count, error } = await supabase
+        .schema('essays')
+        .from('example_essay_votes')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('example_essay_id', exampleId)
+        .eq('value', v)
+
+      if (error) {
+        throw new Error(`Failed to count votes: ${error.message}`)
+      }
+      return count ?? 0
+    }
+
+    const [upvotes, downvotes] = await Promise.all([countVotes(1), countVotes(-1)])
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('example_essays')
+      .update({ upvotes, downvotes })
+      .eq('id', exampleId)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update vote counts: ${error.message}`)
+    }
+
+    return { ...publicExample(data as Record<string, unknown>), my_vote: value }
+  }
 }
@@ -0,0 +1,84 @@
+// local text similarity for the essay reuse finder
+
+import { extractWords, htmlToPlainText, STOPWORDS } from './analysis'
+
+// Word n-gram size used for essay shingles
+const SHINGLE_SIZE = 3
+
+/**
+ * Lowercase content words with a light suffix strip, so "communities" and
+ * "community" count as the same term
+ */
+function terms(text: string): string[] {
+  return extractWords(text.toLowerCase())
+    .map((word) => word.replace(/[’']s?$/, ''))
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map((word) => word.replace(/(?:ies|es|s|ing|ed|ly)$/, '') || word)
+}
+
+/**
+ * TF-IDF cosine similarity of a query document against every candidate.
+ * IDF is computed over the query plus all candidates.
+ */
+export function rankByTfIdf(query: string, candidates: string[]): number[] {
+  const docs = [query, ...candidates].map(terms)
+  const documentFrequency = new Map<string, number>()
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    }
+  }
+
+  const vectors = docs.map((doc) => {
+    const counts = new Map<string, number>()
+    for (const term of doc) counts.set(term, (counts.get(term) ?? 0) + 1)
+
+    const vector = new Map<string, number>()
+    for (const [term, count] of counts) {
+      const idf = Math.log((docs.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1
+      vector.set(term, (count / doc.length) * idf)
+    }
+    return vector
+  })
+
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, x) => sum + x * x, 0))
+  const [queryVector, ...candidateVectors] = vectors
+  const queryNorm = norm(queryVector)
+
+  return candidateVectors.map((vector) => {
+    const denominator = queryNorm * norm(vector)
+    if (!denominator) return 0
+
+    let dot = 0
+    for (const [term, weight] of vector) dot += weight * (queryVector.get(term) ?? 0)
+    return dot / denominator
+  })
+}
+
+/**
+ * Set of word shingles for an HTML document
+ */
+export function shingles(html: string | null | undefined): Set<string> {
+  const tokens = extractWords(htmlToPlainText(html).toLowerCase())
+  const result = new Set<string>()
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '))
+  }
+  return result
+}
+
+/**
+ * Overlap between two shingle sets: `overlap` is Jaccard similarity and
+ * `containment` is the share of `a` that also appears in `b`
+ */
+export function shingleOverlap(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return { overlap: 0, containment: 0 }
+
+  let shared = 0
+  for (const shingle of a) if (b.has(shingle)) shared++
+
+  return {
+    overlap: shared / (a.size + b.size - shared),
+    containment: shared / a.size
+  }
+}
@@ -0,0 +1,225 @@
+import type { FastifyPluginAsync, FastifyReply } from 'fastify'
+import { requireAuth, requireStudentAccess } from '../../plugins/auth'
+import { LinksService, LinkError } from './service'
+import { AcceptLinkInviteSchema, CreateLinkInviteSchema } from './schemas'
+import { EssaysService } from '../essays/service'
+import { SearchUserEssaysQuerySchema } from '../essays/schemas'
+import { sanitizeEssayHtml } from '../essays/sanitize'
+import { TasksService } from '../tasks/service'
+import { SearchGoalsQuerySchema, SearchTasksQuerySchema } from '../tasks/schemas'
+
+// Essay fields a counselor can read (the student's private notes stay private)
+const LINKED_ESSAY_FIELDS = ['id', 'title', 'content', 'word_count', 'status', 'prompt_id', 'version', 'created_at', 'updated_at']
+
+function pick(row: Record<string, unknown>, fields: string[]) {
+  return Object.fromEntries(fields.filter((f) => f in row).map((f) => [f, row[f]]))
+}
+
+/**
+ * An essay as a linked counselor sees it. Content is sanitized on the way out
+ * too, since essays saved before the sanitizer existed may still hold raw HTML.
+ */
+function linkedEssay(essay: Record<string, unknown>, fields: string[] = LINKED_ESSAY_FIELDS) {
+  const out = pick(essay, fields)
+  if (typeof out.content === 'string') out.content = sanitizeEssayHtml(out.content)
+  return out
+}
+
+const routes: FastifyPluginAsync = async (app) => {
+  /**
+   * Answer LinkErrors with their own status, anything else with a 500
+   */
+  function sendError(reply: FastifyReply, err: unknown, message: string) {
+    if (err instanceof LinkError) {
+      return reply.status(err.statusCode).send({ error: err.message })
+    }
+    app.log.error(err)
+    return reply.status(500).send({ error: message })
+  }
+
+  // --- Links ---
+
+  // GET /api/links - Accepted links and pending invites I'm part of
+  app.get('/', { preHandler: [requireAuth] }, async (request, reply) => {
+    const userId = request.userId as string
+
+    try {
+      const links = await LinksService.listLinks(userId)
+      return reply.status(200).send({ links })
+    } catch (err) {
+      return sendError(reply, err, 'Failed to fetch links')
+    }
+  })
+
+  // POST /api/links/invites - Invite a counselor/parent (as a student) or a student (as a counselor/parent)
+  app.post('/invites', { preHandler: [requireAuth] }, async (request, reply) => {
+    const userId = request.userId as string
+
+    const validation = CreateLinkInviteSchema.safeParse(request.body ?? {})
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Invalid input',
+        details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+      })
+    }
+
+    try {
+      // The token goes out by email only
+      const { invite } = await LinksService.createInvite(userId, validation.data)
+      return reply.status(201).send({ invite })
+    } catch (err) {
+      return sendError(reply, err, 'Failed to create invite')
+    }
+  })
+
+  // POST /api/links/accept - Accept an emailed invite
+  app.post('/accept', { preHandler: [requireAuth] }, async (request, reply) => {
+    const userId = request.userId as string
+
+    const validation = AcceptLinkInviteSchema.safeParse(request.body ?? {})
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Invalid input',
+        details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+      })
+    }
+
+    try {
+      const link = await LinksService.acceptInvite(userId, validation.data.token)
+      return reply.status(200).send({ link })
+    } catch (err) {
+      return sendError(reply, err, 'Failed to accept invite')
+    }
+  })
+
+  // DELETE /api/links/:id - End a link or cancel an invite (either side)
+  app.delete<{ Params: { id: string } }>('/:id', { preHandler: [requireAuth] }, async (request, reply) => {
+    const userId = request.userId as string
+    const { id } = request.params
+
+    try {
+      const revoked = await LinksService.revokeLink(userId, id)
+      if (!revoked) {
+        return reply.status(404).send({ error: 'Link not found' })
+      }
+      return reply.status(204).send()
+    } catch (err) {
+      return sendError(reply, err, 'Failed to revoke link')
+    }
+  })
+
+  // --- Read-only views of a linked student ---
+
+  // GET /api/links/students/:studentId/academics - Counselors and parents; parents don't see extracurriculars
+  app.get<{ Params: { studentId: string } }>(
+    '/students/:studentId/academics',
+    { preHandler: [requireAuth, requireStudentAccess('academics')] },
+    async (request, reply) => {
+      const { studentId } = request.params
+
+      try {
+        const academics = await LinksService.getStudentAcademics(studentId, request.studentAccess !== 'parent')
+        return reply.status(200).send(academics)
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch academics')
+      }
+    }
+  )
+
+  // GET /api/links/students/:studentId/essays - Counselors only
+  app.get<{ Params: { studentId: string } }>(
+    '/students/:studentId/essays',
+    { preHandler: [requireAuth, requireStudentAccess('essays')] },
+    async (request, reply) => {
+      const { studentId } = request.params
+
+      const validation = SearchUserEssaysQuerySchema.safeParse(request.query)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        // Search only title and content: notes must not match or show up in snippets
+        const result = await EssaysService.listUserEssays(studentId, validation.data, { includeNotes: false })
+        return reply.status(200).send({
+          ...result,
+          data: result.data.map((essay) => linkedEssay(essay as Record<string, unknown>, [...LINKED_ESSAY_FIELDS, 'search']))
+        })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch essays')
+      }
+    }
+  )
+
+  // GET /api/links/students/:studentId/essays/:essayId - Counselors only
+  app.get<{ Params: { studentId: string; essayId: string } }>(
+    '/students/:studentId/essays/:essayId',
+    { preHandler: [requireAuth, requireStudentAccess('essays')] },
+    async (request, reply) => {
+      const { studentId, essayId } = request.params
+
+      try {
+        const essay = await EssaysService.getUserEssayById(studentId, essayId)
+        if (!essay) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        return reply.status(200).send(linkedEssay(essay))
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch essay')
+      }
+    }
+  )
+
+  // GET /api/links/students/:studentId/tasks - Counselors and parents
+  app.get<{ Params: { studentId: string } }>(
+    '/students/:studentId/tasks',
+    { preHandler: [requireAuth, requireStudentAccess('tasks')] },
+    async (request, reply) => {
+      const { studentId } = request.params
+
+      const validation = SearchTasksQuerySchema.safeParse(request.query)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const result = await TasksService.listTasks(studentId, validation.data)
+        return reply.status(200).send(result)
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch tasks')
+      }
+    }
+  )
+
+  // GET /api/links/students/:studentId/goals - Counselors and parents
+  app.get<{ Params: { studentId: string } }>(
+    '/students/:studentId/goals',
+    { preHandler: [requireAuth, requireStudentAccess('tasks')] },
+    async (request, reply) => {
+      const { studentId } = request.params
+
+      const validation = SearchGoalsQuerySchema.safeParse(request.query)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const result = await TasksService.listGoals(studentId, validation.data)
+        return reply.status(200).send(result)
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch goals')
+      }
+    }
+  )
+}
+
+export default routes
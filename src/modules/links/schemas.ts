@@ -0,0 +1,15 @@
+import { z } from 'zod'
+
+export const CreateLinkInviteSchema = z.object({
+  email: z.email().max(320),
+  // Required when a student invites; a counselor or parent invites as their own role
+  relationship: z.enum(['counselor', 'parent']).optional(),
+})
+
+export type CreateLinkInviteInput = z.infer<typeof CreateLinkInviteSchema>
+
+export const AcceptLinkInviteSchema = z.object({
+  token: z.string().min(1).max(200),
+})
+
+export type AcceptLinkInviteInput = z.infer<typeof AcceptLinkInviteSchema>
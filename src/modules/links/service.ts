@@ -0,0 +1,248 @@
+import { createHash, randomBytes } from 'crypto'
+import { supabase } from '../../config/supabase'
+import env from '../../config/env'
+import { getUser } from '../../lib/helpers'
+import { mailer } from '../../lib/mailer'
+import type { CreateLinkInviteInput } from './schemas'
+
+// How long an emailed link invite can be accepted
+const INVITE_TTL_DAYS = 14
+
+/**
+ * Thrown when a link request is understood but not allowed; carries the
+ * HTTP status the route should answer with
+ */
+export class LinkError extends Error {
+  statusCode: number
+
+  constructor(message: string, statusCode: number) {
+    super(message)
+    this.name = 'LinkError'
+    this.statusCode = statusCode
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export class LinksService {
+  /**
+   * Invite someone to link. Students invite a counselor or parent; counselors
+   * and parents invite a student. The other side accepts with the emailed token.
+   */
+  static async createInvite(
+    userId: string,
+    input: CreateLinkInviteInput
+  ): Promise<{ invite: Record<string, unknown>; token: string }> {
+    const inviter = await getUser(userId)
+    if (!inviter) throw new LinkError('User not found', 404)
+
+    const role = inviter.role as string
+    if (role === 'school_admin') {
+      throw new LinkError('School admins cannot link to students', 403)
+    }
+
+    const relationship = role === 'student' ? input.relationship : role
+    if (!relationship) {
+      throw new LinkError('relationship is required (counselor or parent)', 400)
+    }
+
+    if (input.email.toLowerCase() === String(inviter.email).toLowerCase()) {
+      throw new LinkError('You cannot link to yourself', 400)
+    }
+
+    const token = randomBytes(32).toString('hex')
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + INVITE_TTL_DAYS)
+
+    const { data: invite, error } = await supabase
+      .schema('core')
+      .from('user_links')
+      .insert({
+        student_id: role === 'student' ? userId : null,
+        guardian_id: role === 'student' ? null : userId,
+        relationship,
+        invited_by: userId,
+        invite_email: input.email,
+        token_hash: hashToken(token),
+        expires_at: expiresAt.toISOString()
+      })
+      .select('id, relationship, status, invite_email, expires_at, created_at')
+      .single()
+
+    if (error) throw new Error(`Failed to create invite: ${error.message}`)
+
+    const link = `${env.APP_URL}/links/accept?token=${encodeURIComponent(token)}`
+    const asWhat = role === 'student' ? `their ${relationship}` : `a ${relationship} who can follow your progress`
+    await mailer.send({
+      to: input.email,
+      subject: `${inviter.name} invited you to link on Slate`,
+      text: [
+        `${inviter.name} (${inviter.email}) invited you to link on Slate as ${asWhat}.`,
+        '',
+        'Sign in with this email address and open this link to accept:',
+        '',
+        link,
+        '',
+        `The invite expires in ${INVITE_TTL_DAYS} days.`
+      ].join('\n')
+    })
+
+    return { invite, token }
+  }
+
+  /**
+   * Accept an invite. The signed-in user must own the invited email address
+   * and have the role the invite expects.
+   */
+  static async acceptInvite(userId: string, token: string): Promise<Record<string, unknown>> {
+    const { data: invite } = await supabase
+      .schema('core')
+      .from('user_links')
+      .select('*')
+      .eq('token_hash', hashToken(token))
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    if (!invite || new Date(invite.expires_at) < new Date()) {
+      throw new LinkError('Invite not found or expired', 404)
+    }
+
+    const user = await getUser(userId)
+    if (!user) throw new LinkError('User not found', 404)
+
+    if (String(user.email).toLowerCase() !== String(invite.invite_email).toLowerCase()) {
+      throw new LinkError('This invite was sent to a different email address', 403)
+    }
+
+    const needsStudent = !invite.student_id
+    if (needsStudent ? user.role !== 'student' : user.role !== invite.relationship) {
+      throw new LinkError(
+        needsStudent ? 'Only a student account can accept this invite' : `Only a ${invite.relationship} account can accept this invite`,
+        403
+      )
+    }
+
+    const studentId = needsStudent ? userId : invite.student_id
+    const guardianId = needsStudent ? invite.guardian_id : userId
+
+    const { data: existing } = await supabase
+      .schema('core')
+      .from('user_links')
+      .select('id')
+      .eq('student_id', studentId)
+      .eq('guardian_id', guardianId)
+      .eq('status', 'accepted')
+      .maybeSingle()
+
+    if (existing) throw new LinkError('You are already linked', 409)
+
+    // Token is single use: cleared on accept, and only a still-pending row is updated
+    const { data: accepted, error } = await supabase
+      .schema('core')
+      .from('user_links')
+      .update({
+        student_id: studentId,
+        guardian_id: guardianId,
+        status: 'accepted',
+        token_hash: null,
+        accepted_at: new Date().toISOString()
+      })
+      .eq('id', invite.id)
+      .eq('status', 'pending')
+      .select('id, student_id, guardian_id, relationship, status, accepted_at, created_at')
+      .maybeSingle()
+
+    if (error) throw new Error(`Failed to accept invite: ${error.message}`)
+    if (!accepted) throw new LinkError('Invite not found or expired', 404)
+
+    return accepted
+  }
+
+  /**
+   * Links the user is part of (either side), with the other person's name
+   * and email, plus invites they sent that are still pending
+   */
+  static async listLinks(userId: string) {
+    const { data: links, error } = await supabase
+      .schema('core')
+      .from('user_links')
+      .select('id, student_id, guardian_id, relationship, status, invited_by, invite_email, expires_at, accepted_at, created_at')
+      .or(`student_id.eq.${userId},guardian_id.eq.${userId}`)
+      .in('status', ['pending', 'accepted'])
+      .order('created_at', { ascending: false })
+
+    if (error) throw new Error(`Failed to fetch links: ${error.message}`)
+
+    const otherIds = [...new Set(
+      (links || [])
+        .map((l) => (l.student_id === userId ? l.guardian_id : l.student_id))
+        .filter((id): id is string => !!id)
+    )]
+
+    const { data: people } = otherIds.length
+      ? await supabase.schema('core').from('users').select('id, name, email, role').in('id', otherIds)
+      : { data: [] as Record<string, unknown>[] }
+    const byId = new Map((people || []).map((p) => [p.id, p]))
+
+    const now = new Date()
+    return (links || [])
+      .filter((l) => l.status === 'accepted' || new Date(l.expires_at) > now)
+      .map((l) => {
+        const otherId = l.student_id === userId ? l.guardian_id : l.student_id
+        return {
+          ...l,
+          with: otherId ? byId.get(otherId) ?? null : { email: l.invite_email }
+        }
+      })
+  }
+
+  /**
+   * Either side can end a link (or cancel a pending invite they're part of)
+   */
+  static async revokeLink(userId: string, linkId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .schema('core')
+      .from('user_links')
+      .update({ status: 'revoked', token_hash: null, revoked_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .or(`student_id.eq.${userId},guardian_id.eq.${userId}`)
+      .in('status', ['pending', 'accepted'])
+      .select('id')
+
+    if (error) throw new Error(`Failed to revoke link: ${error.message}`)
+
+    return (data || []).length > 0
+  }
+
+  // --- Read-only student views ---
+
+  /**
+   * Academic profile, courses and (for counselors) extracurriculars
+   */
+  static async getStudentAcademics(studentId: string, includeExtracurriculars: boolean) {
+    const [profile, courses, extracurriculars] = await Promise.all([
+      supabase.schema('academics').from('user_profile').select('*').eq('user_id', studentId).maybeSingle(),
+      supabase
+        .schema('academics')
+        .from('user_courses')
+        .select('*')
+        .eq('user_id', studentId)
+        .order('year', { ascending: false })
+        .order('semester', { ascending: false }),
+      includeExtracurriculars
+        ? supabase.schema('academics').from('extracurriculars').select('*').eq('user_id', studentId)
+        : Promise.resolve({ data: undefined, error: null })
+    ])
+
+    const error = profile.error || courses.error || extracurriculars.error
+    if (error) throw new Error(`Failed to fetch academics: ${error.message}`)
+
+    return {
+      profile: profile.data,
+      courses: courses.data || [],
+      ...(includeExtracurriculars ? { extracurriculars: extracurriculars.data || [] } : {})
+    }
+  }
+}
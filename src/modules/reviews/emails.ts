@@ -0,0 +1,30 @@
+import type { EmailMessage } from '../../lib/mailer'
+import env from '../../config/env'
+
+/**
+ * Invitation to review an essay; the link only opens for the invited address
+ */
+export function reviewInviteEmail(
+  to: string,
+  ownerName: string | null,
+  essayTitle: string | null,
+  token: string,
+  expiresAt: Date
+): EmailMessage {
+  const link = `${env.APP_URL}/reviews/${encodeURIComponent(token)}`
+  const who = ownerName || 'A Slate student'
+
+  return {
+    to,
+    subject: `${who} asked you to review an essay`,
+    text: [
+      'Hi,',
+      '',
+      `${who} would like your feedback on "${essayTitle || 'Untitled essay'}". Sign in to Slate with this email address and open this link to read it and leave comments:`,
+      '',
+      link,
+      '',
+      `The invite expires on ${expiresAt.toISOString().slice(0, 10)}. If you weren't expecting it, you can ignore this email.`
+    ].join('\n')
+  }
+}
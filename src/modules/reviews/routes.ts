@@ -0,0 +1,230 @@
+import type { FastifyPluginAsync, FastifyReply } from 'fastify'
+import { requireAuth, requireVerified } from '../../plugins/auth'
+import { ReviewsService, ReviewError, type ReviewAccess } from './service'
+import { CreateShareSchema, CreateCommentSchema, UpdateCommentSchema } from './schemas'
+
+const routes: FastifyPluginAsync = async (app) => {
+  /**
+   * Answer ReviewErrors with their own status, anything else with a 500
+   */
+  function sendError(reply: FastifyReply, err: unknown, message: string) {
+    if (err instanceof ReviewError) {
+      return reply.status(err.statusCode).send({ error: err.message })
+    }
+    app.log.error(err)
+    return reply.status(500).send({ error: message })
+  }
+
+  /**
+   * Comment routes shared by the owner (/user/:id) and reviewer (/reviews/:token) paths
+   */
+  function registerCommentRoutes(
+    base: string,
+    getAccess: (userId: string, params: Record<string, string>) => Promise<ReviewAccess | null>
+  ) {
+    // GET comment threads
+    app.get<{ Params: Record<string, string> }>(`${base}/comments`, { preHandler: [requireAuth] }, async (request, reply) => {
+      const userId = request.userId as string
+
+      try {
+        const access = await getAccess(userId, request.params)
+        if (!access) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+
+        const threads = await ReviewsService.listComments(access)
+        return reply.status(200).send({ threads })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch comments')
+      }
+    })
+
+    // POST a new thread anchored to a range, or a reply
+    app.post<{ Params: Record<string, string> }>(`${base}/comments`, { preHandler: [requireAuth] }, async (request, reply) => {
+      const userId = request.userId as string
+
+      const validation = CreateCommentSchema.safeParse(request.body)
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid input',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const access = await getAccess(userId, request.params)
+        if (!access) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+
+        const comment = await ReviewsService.createComment(userId, access, validation.data)
+        return reply.status(201).send({ comment })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to create comment')
+      }
+    })
+
+    // PATCH edit a comment or resolve/unresolve a thread
+    app.patch<{ Params: Record<string, string> }>(
+      `${base}/comments/:commentId`,
+      { preHandler: [requireAuth] },
+      async (request, reply) => {
+        const userId = request.userId as string
+
+        const validation = UpdateCommentSchema.safeParse(request.body)
+        if (!validation.success) {
+          return reply.status(400).send({
+            error: 'Invalid input',
+            details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+          })
+        }
+
+        try {
+          const access = await getAccess(userId, request.params)
+          if (!access) {
+            return reply.status(404).send({ error: 'Essay not found' })
+          }
+
+          const comment = await ReviewsService.updateComment(
+            userId,
+            access,
+            request.params.commentId,
+            validation.data
+          )
+          if (!comment) {
+            return reply.status(404).send({ error: 'Comment not found' })
+          }
+          return reply.status(200).send({ comment })
+        } catch (err) {
+          return sendError(reply, err, 'Failed to update comment')
+        }
+      }
+    )
+  }
+
+  // --- Owner: shares ---
+
+  // POST /api/essays/user/:id/shares - Invite a reviewer by email or create a share link
+  app.post<{ Params: { id: string } }>(
+    '/user/:id/shares',
+    { preHandler: [requireAuth, requireVerified] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id } = request.params
+
+      const validation = CreateShareSchema.safeParse(request.body ?? {})
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid input',
+          details: validation.error.issues.map((e) => ({ path: e.path.join('.'), message: e.message }))
+        })
+      }
+
+      try {
+        const result = await ReviewsService.createShare(userId, id, validation.data, request.log)
+        if (!result) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        // Email invites are mailed to the reviewer; the token is also returned here, once, so the client can show the link
+        return reply.status(201).send(result)
+      } catch (err) {
+        return sendError(reply, err, 'Failed to share essay')
+      }
+    }
+  )
+
+  // GET /api/essays/user/:id/shares - List reviewers and links
+  app.get<{ Params: { id: string } }>(
+    '/user/:id/shares',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id } = request.params
+
+      try {
+        const shares = await ReviewsService.listShares(userId, id)
+        if (!shares) {
+          return reply.status(404).send({ error: 'Essay not found' })
+        }
+        return reply.status(200).send({ shares })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to fetch shares')
+      }
+    }
+  )
+
+  // DELETE /api/essays/user/:id/shares/:shareId - Revoke a share
+  app.delete<{ Params: { id: string; shareId: string } }>(
+    '/user/:id/shares/:shareId',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+      const { id, shareId } = request.params
+
+      try {
+        const revoked = await ReviewsService.revokeShare(userId, id, shareId)
+        if (!revoked) {
+          return reply.status(404).send({ error: 'Share not found' })
+        }
+        return reply.status(200).send({ success: true })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to revoke share')
+      }
+    }
+  )
+
+  // --- Reviewer ---
+
+  // GET /api/essays/reviews/:token - Open a shared essay (claims an unclaimed link)
+  app.get<{ Params: { token: string } }>(
+    '/reviews/:token',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+
+      try {
+        const access = await ReviewsService.openShare(userId, request.params.token)
+        return reply.status(200).send({
+          role: access.role,
+          essay: access.essay,
+          share: access.share && {
+            id: access.share.id,
+            expires_at: access.share.expires_at,
+            completed_at: access.share.completed_at
+          }
+        })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to open review')
+      }
+    }
+  )
+
+  // POST /api/essays/reviews/:token/complete - Reviewer finishes their review
+  app.post<{ Params: { token: string } }>(
+    '/reviews/:token/complete',
+    { preHandler: [requireAuth] },
+    async (request, reply) => {
+      const userId = request.userId as string
+
+      try {
+        const access = await ReviewsService.openShare(userId, request.params.token)
+        const share = await ReviewsService.completeReview(access)
+        return reply.status(200).send({ share })
+      } catch (err) {
+        return sendError(reply, err, 'Failed to complete review')
+      }
+    }
+  )
+
+  // --- Comments ---
+
+  registerCommentRoutes('/user/:id', (userId, params) =>
+    ReviewsService.getOwnerAccess(userId, params.id)
+  )
+
+  registerCommentRoutes('/reviews/:token', (userId, params) =>
+    ReviewsService.openShare(userId, params.token)
+  )
+}
+
+export default routes
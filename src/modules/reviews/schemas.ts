@@ -0,0 +1,41 @@
+import { z } from 'zod'
+
+// --- Shares ---
+
+export const CreateShareSchema = z.object({
+  reviewer_email: z.email().max(320).optional(), // omit for a share link
+  expires_in_days: z.number().int().min(1).max(90).default(14).optional(),
+})
+
+export type CreateShareInput = z.infer<typeof CreateShareSchema>
+
+// --- Comments ---
+
+export const CreateCommentSchema = z
+  .object({
+    body: z.string().trim().min(1).max(5000),
+    parent_id: z.uuid().optional(), // reply to an existing thread
+    range_start: z.number().int().min(0).optional(),
+    range_end: z.number().int().min(1).optional(),
+  })
+  .refine(
+    (c) => c.parent_id !== undefined || (c.range_start !== undefined && c.range_end !== undefined),
+    { message: 'New threads need range_start and range_end', path: ['range_start'] }
+  )
+  .refine(
+    (c) => c.range_start === undefined || c.range_end === undefined || c.range_end > c.range_start,
+    { message: 'range_end must be after range_start', path: ['range_end'] }
+  )
+
+export type CreateCommentInput = z.infer<typeof CreateCommentSchema>
+
+export const UpdateCommentSchema = z
+  .object({
+    body: z.string().trim().min(1).max(5000).optional(),
+    resolved: z.boolean().optional(),
+  })
+  .refine((c) => c.body !== undefined || c.resolved !== undefined, {
+    message: 'Nothing to update'
+  })
+
+export type UpdateCommentInput = z.infer<typeof UpdateCommentSchema>
@@ -0,0 +1,469 @@
+import { createHash, randomBytes } from 'crypto'
+import type { FastifyBaseLogger } from 'fastify'
+import { supabase } from '../../config/supabase'
+import { getUser } from '../../lib/helpers'
+import { EssaysService } from '../essays/service'
+import { htmlToPlainText } from '../essays/analysis'
+import { sanitizeEssayHtml } from '../essays/sanitize'
+import { mailer } from '../../lib/mailer'
+import { reviewInviteEmail } from './emails'
+import type { CreateShareInput, CreateCommentInput, UpdateCommentInput } from './schemas'
+
+/**
+ * Thrown when a review request is understood but not allowed; carries the
+ * HTTP status the route should answer with
+ */
+export class ReviewError extends Error {
+  statusCode: number
+
+  constructor(message: string, statusCode: number) {
+    super(message)
+    this.name = 'ReviewError'
+    this.statusCode = statusCode
+  }
+}
+
+/**
+ * What the current user may do with an essay under review. Owners see
+ * everything; reviewers only see the essay text and their own share's threads.
+ */
+export interface ReviewAccess {
+  role: 'owner' | 'reviewer'
+  essay: Record<string, unknown>
+  share: Record<string, unknown> | null
+}
+
+// Essay fields a reviewer is allowed to read (no private notes)
+const REVIEWER_ESSAY_FIELDS = ['id', 'title', 'content', 'word_count', 'status', 'prompt_id', 'version', 'updated_at']
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function isOpen(share: Record<string, unknown>): boolean {
+  return !share.revoked_at && !share.completed_at && new Date(share.expires_at as string) > new Date()
+}
+
+export class ReviewsService {
+  // --- Shares ---
+
+  /**
+   * Share an essay for review. Email invites are mailed to the reviewer; the raw
+   * token is also returned once so the owner can copy the link. Only its hash is stored.
+   */
+  static async createShare(
+    userId: string,
+    essayId: string,
+    input: CreateShareInput,
+    log: FastifyBaseLogger
+  ): Promise<{ share: Record<string, unknown>; token: string; email_sent: boolean } | null> {
+    const essay = await EssaysService.getUserEssayById(userId, essayId)
+    if (!essay) return null
+
+    const token = randomBytes(32).toString('hex')
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + (input.expires_in_days ?? 14))
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_shares')
+      .insert({
+        essay_id: essayId,
+        owner_id: userId,
+        token_hash: hashToken(token),
+        reviewer_email: input.reviewer_email?.toLowerCase() ?? null,
+        expires_at: expiresAt.toISOString()
+      })
+      .select('id, essay_id, reviewer_email, reviewer_id, expires_at, completed_at, revoked_at, created_at')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create share: ${error.message}`)
+    }
+
+    await this.syncReviewStatus(essayId)
+
+    // A failed send still leaves a working share; the owner can pass the link on themselves
+    let emailSent = false
+    if (data.reviewer_email) {
+      try {
+        const owner = await getUser(userId)
+        await mailer.send(reviewInviteEmail(data.reviewer_email, owner?.name ?? null, essay.title as string | null, token, expiresAt))
+        emailSent = true
+      } catch (err) {
+        log.error(err, 'Failed to send review invite')
+      }
+    }
+
+    return { share: data as Record<string, unknown>, token, email_sent: emailSent }
+  }
+
+  static async listShares(
+    userId: string,
+    essayId: string
+  ): Promise<Record<string, unknown>[] | null> {
+    const essay = await EssaysService.getUserEssayById(userId, essayId)
+    if (!essay) return null
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_shares')
+      .select('id, essay_id, reviewer_email, reviewer_id, expires_at, completed_at, revoked_at, created_at')
+      .eq('essay_id', essayId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to fetch shares: ${error.message}`)
+    }
+
+    // Expired shares don't notify us, so settle the status whenever the owner looks
+    await this.syncReviewStatus(essayId)
+
+    return ((data ?? []) as Record<string, unknown>[]).map((share) => ({
+      ...share,
+      is_open: isOpen(share)
+    }))
+  }
+
+  static async revokeShare(userId: string, essayId: string, shareId: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', shareId)
+      .eq('essay_id', essayId)
+      .eq('owner_id', userId)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to revoke share: ${error.message}`)
+    }
+    if (!data) return false
+
+    await this.syncReviewStatus(essayId)
+    return true
+  }
+
+  /**
+   * Resolve a share token for the signed-in user. Email invites only open for
+   * the invited address; a share link is claimed by the first reviewer to open it.
+   */
+  static async openShare(userId: string, token: string): Promise<ReviewAccess> {
+    const { data: share, error } = await supabase
+      .schema('essays')
+      .from('essay_shares')
+      .select('*')
+      .eq('token_hash', hashToken(token))
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch share: ${error.message}`)
+    }
+    if (!share) {
+      throw new ReviewError('Share not found', 404)
+    }
+    if (new Date(share.expires_at) < new Date()) {
+      throw new ReviewError('Share link has expired', 410)
+    }
+
+    // The owner opening their own link just sees their essay
+    if (share.owner_id === userId) {
+      const access = await this.getOwnerAccess(userId, share.essay_id)
+      if (!access) throw new ReviewError('Share not found', 404)
+      return access
+    }
+
+    if (share.reviewer_id && share.reviewer_id !== userId) {
+      throw new ReviewError('This review belongs to another reviewer', 403)
+    }
+
+    if (!share.reviewer_id) {
+      if (share.reviewer_email) {
+        const user = await getUser(userId)
+        if (!user || user.email?.toLowerCase() !== share.reviewer_email) {
+          throw new ReviewError('This review was shared with a different email', 403)
+        }
+      }
+
+      // Claim only if nobody else claimed it in the meantime
+      const { data: claimed, error: claimError } = await supabase
+        .schema('essays')
+        .from('essay_shares')
+        .update({ reviewer_id: userId })
+        .eq('id', share.id)
+        .is('reviewer_id', null)
+        .select('*')
+        .maybeSingle()
+
+      if (claimError) {
+        throw new Error(`Failed to claim share: ${claimError.message}`)
+      }
+      if (!claimed) {
+        throw new ReviewError('This review belongs to another reviewer', 403)
+      }
+      share.reviewer_id = userId
+    }
+
+    const { data: essay, error: essayError } = await supabase
+      .schema('essays')
+      .from('user_essays')
+      .select(REVIEWER_ESSAY_FIELDS.join(', '))
+      .eq('id', share.essay_id)
+      .single()
+
+    if (essayError || !essay) {
+      throw new ReviewError('Share not found', 404)
+    }
+
+    // Essays saved before sanitization landed may still hold unsafe markup
+    const reviewerEssay = essay as unknown as Record<string, unknown>
+    reviewerEssay.content = sanitizeEssayHtml(String(reviewerEssay.content ?? ''))
+
+    return { role: 'reviewer', essay: reviewerEssay, share }
+  }
+
+  static async getOwnerAccess(userId: string, essayId: string): Promise<ReviewAccess | null> {
+    const essay = await EssaysService.getUserEssayById(userId, essayId)
+    if (!essay) return null
+    return { role: 'owner', essay, share: null }
+  }
+
+  /**
+   * Reviewer marks their review as done
+   */
+  static async completeReview(access: ReviewAccess): Promise<Record<string, unknown>> {
+    if (access.role !== 'reviewer' || !access.share) {
+      throw new ReviewError('Only the reviewer can complete a review', 403)
+    }
+    if (!isOpen(access.share)) {
+      throw new ReviewError('Review is already closed', 409)
+    }
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_shares')
+      .update({ completed_at: new Date().toISOString() })
+      .eq('id', access.share.id as string)
+      .select('id, essay_id, reviewer_email, reviewer_id, expires_at, completed_at, revoked_at, created_at')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to complete review: ${error.message}`)
+    }
+
+    await this.syncReviewStatus(access.essay.id as string)
+    return data as Record<string, unknown>
+  }
+
+  /**
+   * Keep the essay's status in step with its reviews: draft -> in_review while
+   * any review is open, and back to draft once none are. Final and submitted
+   * essays are left alone.
+   */
+  private static async syncReviewStatus(essayId: string): Promise<void> {
+    const { count, error } = await supabase
+      .schema('essays')
+      .from('essay_shares')
+      .select('id', { count: 'exact', head: true })
+      .eq('essay_id', essayId)
+      .is('revoked_at', null)
+      .is('completed_at', null)
+      .gt('expires_at', new Date().toISOString())
+
+    if (error) {
+      throw new Error(`Failed to count open reviews: ${error.message}`)
+    }
+
+    const [from, to] = (count ?? 0) > 0 ? ['draft', 'in_review'] : ['in_review', 'draft']
+
+    const { error: updateError } = await supabase
+      .schema('essays')
+      .from('user_essays')
+      .update({ status: to })
+      .eq('id', essayId)
+      .eq('status', from)
+
+    if (updateError) {
+      throw new Error(`Failed to update essay status: ${updateError.message}`)
+    }
+  }
+
+  // --- Comments ---
+
+  /**
+   * List comment threads (top-level comments with their replies). Reviewers
+   * only see threads started under their own share.
+   */
+  static async listComments(access: ReviewAccess): Promise<Record<string, unknown>[]> {
+    let q = supabase
+      .schema('essays')
+      .from('essay_comments')
+      .select('*')
+      .eq('essay_id', access.essay.id as string)
+
+    if (access.role === 'reviewer') {
+      q = q.eq('share_id', access.share!.id as string)
+    }
+
+    const { data, error } = await q.order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to fetch comments: ${error.message}`)
+    }
+
+    const comments = (data ?? []) as Record<string, unknown>[]
+
+    // Attach author names in one query
+    const authorIds = [...new Set(comments.map((c) => c.author_id as string))]
+    const authors = new Map<string, string>()
+    if (authorIds.length) {
+      const { data: users, error: usersError } = await supabase
+        .schema('core')
+        .from('users')
+        .select('id, name')
+        .in('id', authorIds)
+
+      if (usersError) {
+        throw new Error(`Failed to fetch comment authors: ${usersError.message}`)
+      }
+      for (const user of users ?? []) authors.set(user.id, user.name)
+    }
+
+    const withAuthor: Record<string, unknown>[] = comments.map((c) => ({
+      ...c,
+      author_name: authors.get(c.author_id as string) ?? null
+    }))
+
+    return withAuthor
+      .filter((c) => !c.parent_id)
+      .map((thread) => ({
+        ...thread,
+        replies: withAuthor.filter((c) => c.parent_id === thread.id)
+      }))
+  }
+
+  static async createComment(
+    userId: string,
+    access: ReviewAccess,
+    input: CreateCommentInput
+  ): Promise<Record<string, unknown>> {
+    if (access.share && !isOpen(access.share)) {
+      throw new ReviewError('Review is closed', 409)
+    }
+
+    let shareId = (access.share?.id as string | undefined) ?? null
+    let range: { range_start: number; range_end: number; quote: string } | null = null
+
+    if (input.parent_id) {
+      const parent = await this.getComment(access, input.parent_id)
+      if (!parent) throw new ReviewError('Comment not found', 404)
+      if (parent.parent_id) throw new ReviewError('Replies cannot be nested', 400)
+
+      // Replies stay in the parent's thread, and so visible to the same reviewer
+      shareId = (parent.share_id as string | null) ?? null
+    } else {
+      const text = htmlToPlainText(access.essay.content as string | null)
+      const start = input.range_start!
+      const end = input.range_end!
+      if (end > text.length) {
+        throw new ReviewError('Comment range is outside the essay', 400)
+      }
+      range = { range_start: start, range_end: end, quote: text.slice(start, end) }
+    }
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_comments')
+      .insert({
+        essay_id: access.essay.id,
+        share_id: shareId,
+        author_id: userId,
+        parent_id: input.parent_id ?? null,
+        ...range,
+        body: input.body,
+        updated_at: new Date().toISOString()
+      })
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to create comment: ${error.message}`)
+    }
+
+    return data as Record<string, unknown>
+  }
+
+  /**
+   * Edit a comment's body (author only) or resolve/unresolve a thread
+   */
+  static async updateComment(
+    userId: string,
+    access: ReviewAccess,
+    commentId: string,
+    input: UpdateCommentInput
+  ): Promise<Record<string, unknown> | null> {
+    const comment = await this.getComment(access, commentId)
+    if (!comment) return null
+
+    if (access.share && !isOpen(access.share)) {
+      throw new ReviewError('Review is closed', 409)
+    }
+    if (input.body !== undefined && comment.author_id !== userId) {
+      throw new ReviewError('Only the author can edit a comment', 403)
+    }
+    if (input.resolved !== undefined && comment.parent_id) {
+      throw new ReviewError('Only threads can be resolved', 400)
+    }
+
+    const changes: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (input.body !== undefined) changes.body = input.body
+    if (input.resolved !== undefined) {
+      changes.resolved_at = input.resolved ? new Date().toISOString() : null
+      changes.resolved_by = input.resolved ? userId : null
+    }
+
+    const { data, error } = await supabase
+      .schema('essays')
+      .from('essay_comments')
+      .update(changes)
+      .eq('id', commentId)
+      .select('*')
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to update comment: ${error.message}`)
+    }
+
+    return data as Record<string, unknown>
+  }
+
+  /**
+   * Fetch a comment the current user is allowed to see
+   */
+  private static async getComment(
+    access: ReviewAccess,
+    commentId: string
+  ): Promise<Record<string, unknown> | null> {
+    let q = supabase
+      .schema('essays')
+      .from('essay_comments')
+      .select('*')
+      .eq('id', commentId)
+      .eq('essay_id', access.essay.id as string)
+
+    if (access.role === 'reviewer') {
+      q = q.eq('share_id', access.share!.id as string)
+    }
+
+    const { data, error } = await q.maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to fetch comment: ${error.message}`)
+    }
+
+    return data as Record<string, unknown> | null
+  }
+}
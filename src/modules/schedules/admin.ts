@@ -0,0 +1,502 @@
+// school-admin editing of bell schedule templates and the school calendar
+
+import { supabase } from "../../config/supabase"
+import { validatePeriods } from "./periods"
+import { addDays, isValidDate } from "./time"
+import { MAX_RANGE_DAYS } from "./service"
+
+export class ScheduleAdminError extends Error {
+    statusCode: number
+    details?: string[]
+
+    constructor(message: string, statusCode: number, details?: string[]) {
+        super(message)
+        this.name = "ScheduleAdminError"
+        this.statusCode = statusCode
+        this.details = details
+    }
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+
+// CSV schedule values that mean "no school that day"
+const NO_SCHOOL_VALUES = new Set(["", "no school", "holiday", "closed", "none", "off"])
+
+const MAX_CSV_ROWS = 1000
+
+// Initials appear in public URLs (/api/schedules/LHS/today)
+const INITIALS_PATTERN = /^[A-Za-z0-9]{2,12}$/
+
+// Path segments the schedules routes already use, which initials would collide with
+const RESERVED_INITIALS = new Set(["id", "feeds", "personal"])
+
+const TEMPLATE_COLUMNS = "id, school_id, name, schedule_data, created_at, updated_at"
+
+export interface DayAssignment {
+    // null declares a day off; note says why
+    bell_schedule_id: string | null
+    note?: string | null
+}
+
+/**
+ * Minimal RFC 4180 parsing: quoted fields, doubled quotes, CRLF or LF rows.
+ * A leading byte order mark (Excel's "CSV UTF-8" adds one) is ignored.
+ */
+function parseCsv(csv: string): string[][] {
+    const text = csv.replace(/^\uFEFF/, "")
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ""
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++ }
+            else if (char === '"') quoted = false
+            else field += char
+        } else if (char === '"') {
+            quoted = true
+        } else if (char === ",") {
+            row.push(field)
+            field = ""
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ""
+        } else {
+            field += char
+        }
+    }
+    if (field || row.length) {
+        row.push(field)
+        rows.push(row)
+    }
+
+    // Blank lines carry nothing
+    return rows.filter((r) => r.some((value) => value.trim()))
+}
+
+export class ScheduleAdminService {
+    /**
+     * Templates a school can use: its own plus shared (school-less) ones
+     */
+    static async listTemplates(schoolId: string) {
+        // schoolId goes into a PostgREST filter string below
+        if (!/^[\w-]+$/.test(schoolId)) {
+            throw new ScheduleAdminError("School not found", 404)
+        }
+
+        const { data, error } = await supabase
+            .schema("core")
+            .from("bell_schedules")
+            .select(TEMPLATE_COLUMNS)
+            .or(`school_id.eq.${schoolId},school_id.is.null`)
+            .order("name", { ascending: true })
+
+        if (error) {
+            throw new Error(`Failed to list bell schedules: ${error.message}`)
+        }
+
+        return data || []
+    }
+
+    /**
+     * A template the school may use; 404 for another school's
+     */
+    static async getTemplate(schoolId: string, templateId: string) {
+        const { data, error } = await supabase
+            .schema("core")
+            .from("bell_schedules")
+            .select(TEMPLATE_COLUMNS)
+            .eq("id", templateId)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch bell schedule: ${error.message}`)
+        }
+        if (!data || (data.school_id && data.school_id !== schoolId)) {
+            throw new ScheduleAdminError("Bell schedule not found", 404)
+        }
+
+        return data
+    }
+
+    /**
+     * A template the school may edit: only its own, not shared ones
+     */
+    private static async getOwnTemplate(schoolId: string, templateId: string) {
+        const template = await ScheduleAdminService.getTemplate(schoolId, templateId)
+        if (!template.school_id) {
+            throw new ScheduleAdminError("Shared bell schedules can't be edited; create a copy for your school", 403)
+        }
+        return template
+    }
+
+    private static checkName(name: unknown): string {
+        if (typeof name !== "string" || !name.trim() || name.trim().length > 100) {
+            throw new ScheduleAdminError("name is required (at most 100 characters)", 400)
+        }
+        return name.trim()
+    }
+
+    private static checkPeriods(periods: unknown) {
+        const result = validatePeriods(periods)
+        if ("errors" in result) {
+            throw new ScheduleAdminError("Invalid periods", 400, result.errors)
+        }
+        return result.periods
+    }
+
+    static async createTemplate(schoolId: string, input: { name?: unknown; periods?: unknown }) {
+        const name = ScheduleAdminService.checkName(input.name)
+        const periods = ScheduleAdminService.checkPeriods(input.periods)
+
+        const { data, error } = await supabase
+            .schema("core")
+            .from("bell_schedules")
+            .insert({ school_id: schoolId, name, schedule_data: periods })
+            .select(TEMPLATE_COLUMNS)
+            .single()
+
+        if (error) {
+            throw new Error(`Failed to create bell schedule: ${error.message}`)
+        }
+
+        return data
+    }
+
+    static async updateTemplate(schoolId: string, templateId: string, input: { name?: unknown; periods?: unknown }) {
+        await ScheduleAdminService.getOwnTemplate(schoolId, templateId)
+
+        const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+        if (input.name !== undefined) updates.name = ScheduleAdminService.checkName(input.name)
+        if (input.periods !== undefined) updates.schedule_data = ScheduleAdminService.checkPeriods(input.periods)
+
+        const { data, error } = await supabase
+            .schema("core")
+            .from("bell_schedules")
+            .update(updates)
+            .eq("id", templateId)
+            .select(TEMPLATE_COLUMNS)
+            .single()
+
+        if (error) {
+            throw new Error(`Failed to update bell schedule: ${error.message}`)
+        }
+
+        return data
+    }
+
+    /**
+     * Delete a template no day uses anymore; 409 while any day still does
+     */
+    static async deleteTemplate(schoolId: string, templateId: string) {
+        await ScheduleAdminService.getOwnTemplate(schoolId, templateId)
+
+        const { count, error: cError } = await supabase
+            .schema("core")
+            .from("bell_schedule_days")
+            .select("id", { count: "exact", head: true })
+            .eq("bell_schedule_id", templateId)
+
+        if (cError) {
+            throw new Error(`Failed to check bell schedule usage: ${cError.message}`)
+        }
+        if (count) {
+            throw new ScheduleAdminError(`Bell schedule is used on ${count} day(s); reassign them first`, 409)
+        }
+
+        const { error } = await supabase
+            .schema("core")
+            .from("bell_schedules")
+            .delete()
+            .eq("id", templateId)
+
+        if (error) {
+            throw new Error(`Failed to delete bell schedule: ${error.message}`)
+        }
+    }
+
+    /**
+     * Set the initials the public /:schoolInitials routes look the school up
+     * by. They must be unique across schools, case-insensitively.
+     */
+    static async setInitials(schoolId: string, initials: unknown) {
+        if (typeof initials !== "string" || !INITIALS_PATTERN.test(initials.trim())) {
+            throw new ScheduleAdminError("Initials must be 2-12 letters or digits", 400)
+        }
+        const value = initials.trim()
+        if (RESERVED_INITIALS.has(value.toLowerCase())) {
+            throw new ScheduleAdminError(`"${value}" is reserved; choose other initials`, 400)
+        }
+
+        const { data: taken, error: takenError } = await supabase
+            .schema("core")
+            .from("schools")
+            .select("id")
+            .ilike("initials", value)
+            .neq("id", schoolId)
+            .limit(1)
+
+        if (takenError) {
+            throw new Error(`Failed to check initials: ${takenError.message}`)
+        }
+        if (taken?.length) {
+            throw new ScheduleAdminError("Another school already uses those initials", 409)
+        }
+
+        const { data: school, error } = await supabase
+            .schema("core")
+            .from("schools")
+            .update({ initials: value })
+            .eq("id", schoolId)
+            .select("id, initials")
+            .maybeSingle()
+
+        if (error) {
+            // The unique index catches a race with another school taking them
+            if (error.code === "23505") {
+                throw new ScheduleAdminError("Another school already uses those initials", 409)
+            }
+            throw new Error(`Failed to save initials: ${error.message}`)
+        }
+        if (!school) {
+            throw new ScheduleAdminError("School not found", 404)
+        }
+
+        // Keep the copy on day rows in step
+        const { error: daysError } = await supabase
+            .schema("core")
+            .from("bell_schedule_days")
+            .update({ school_initials: value })
+            .eq("school_id", schoolId)
+
+        if (daysError) {
+            throw new Error(`Failed to update days: ${daysError.message}`)
+        }
+
+        return school
+    }
+
+    /**
+     * The school's initials, still copied onto new day rows where the
+     * public routes used to read them
+     */
+    private static async schoolInitials(schoolId: string): Promise<string | null> {
+        const { data, error } = await supabase
+            .schema("core")
+            .from("schools")
+            .select("initials")
+            .eq("id", schoolId)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch school: ${error.message}`)
+        }
+
+        return data?.initials ?? null
+    }
+
+    /**
+     * Check an assignment's template is usable by the school and tidy its note
+     */
+    private static async checkAssignment(schoolId: string, assignment: DayAssignment): Promise<DayAssignment & { name: string | null }> {
+        const note = typeof assignment.note === "string" && assignment.note.trim() ? assignment.note.trim().slice(0, 200) : null
+        if (!assignment.bell_schedule_id) {
+            return { bell_schedule_id: null, note, name: null }
+        }
+
+        const template = await ScheduleAdminService.getTemplate(schoolId, assignment.bell_schedule_id)
+        return { bell_schedule_id: template.id, note, name: template.name }
+    }
+
+    /**
+     * Write day rows (one per date), replacing existing entries unless told not to
+     */
+    private static async upsertDays(
+        schoolId: string,
+        rows: { day: string; bell_schedule_id: string | null; note: string | null }[],
+        overwrite: boolean
+    ) {
+        if (!rows.length) {
+            return []
+        }
+
+        const initials = await ScheduleAdminService.schoolInitials(schoolId)
+        const { data, error } = await supabase
+            .schema("core")
+            .from("bell_schedule_days")
+            .upsert(
+                rows.map((row) => ({ school_id: schoolId, ...row, ...(initials ? { school_initials: initials } : {}) })),
+                { onConflict: "school_id,day", ignoreDuplicates: !overwrite }
+            )
+            .select("*")
+
+        if (error) {
+            throw new Error(`Failed to save days: ${error.message}`)
+        }
+
+        return data || []
+    }
+
+    /**
+     * Set one date's bell schedule, or declare it a day off
+     */
+    static async setDay(schoolId: string, day: string, assignment: DayAssignment) {
+        if (!isValidDate(day)) {
+            throw new ScheduleAdminError("Day must be a YYYY-MM-DD date", 400)
+        }
+
+        const checked = await ScheduleAdminService.checkAssignment(schoolId, assignment)
+        const [saved] = await ScheduleAdminService.upsertDays(
+            schoolId,
+            [{ day, bell_schedule_id: checked.bell_schedule_id, note: checked.note ?? null }],
+            true
+        )
+
+        return { day: saved, name: checked.name }
+    }
+
+    /**
+     * Remove a date's entry so it falls back to "no schedule"
+     */
+    static async clearDay(schoolId: string, day: string): Promise<boolean> {
+        if (!isValidDate(day)) {
+            throw new ScheduleAdminError("Day must be a YYYY-MM-DD date", 400)
+        }
+
+        const { data, error } = await supabase
+            .schema("core")
+            .from("bell_schedule_days")
+            .delete()
+            .eq("school_id", schoolId)
+            .eq("day", day)
+            .select("id")
+
+        if (error) {
+            throw new Error(`Failed to clear day: ${error.message}`)
+        }
+
+        return (data || []).length > 0
+    }
+
+    /**
+     * Assign a template (or a day off) to every matching date in a range,
+     * e.g. every Wednesday of the semester. Existing entries are kept unless
+     * overwrite is set, so holidays declared first survive.
+     */
+    static async assignDays(
+        schoolId: string,
+        input: { from: string; to: string; weekdays?: string[]; overwrite?: boolean } & DayAssignment
+    ) {
+        if (!isValidDate(input.from) || !isValidDate(input.to)) {
+            throw new ScheduleAdminError("from and to must be YYYY-MM-DD dates", 400)
+        }
+        if (input.to < input.from) {
+            throw new ScheduleAdminError("to must not be before from", 400)
+        }
+        if ((Date.parse(input.to) - Date.parse(input.from)) / 86400000 + 1 > MAX_RANGE_DAYS) {
+            throw new ScheduleAdminError(`Range is limited to ${MAX_RANGE_DAYS} days`, 400)
+        }
+
+        const weekdays = (input.weekdays ?? ["monday", "tuesday", "wednesday", "thursday", "friday"]).map((d) => String(d).toLowerCase())
+        const unknown = weekdays.filter((d) => !WEEKDAYS.includes(d))
+        if (!weekdays.length || unknown.length) {
+            throw new ScheduleAdminError(`weekdays must be day names: ${WEEKDAYS.join(", ")}`, 400)
+        }
+
+        const checked = await ScheduleAdminService.checkAssignment(schoolId, input)
+
+        const rows = []
+        for (let date = input.from; date <= input.to; date = addDays(date, 1)) {
+            if (weekdays.includes(WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]!)) {
+                rows.push({ day: date, bell_schedule_id: checked.bell_schedule_id, note: checked.note ?? null })
+            }
+        }
+
+        const saved = await ScheduleAdminService.upsertDays(schoolId, rows, !!input.overwrite)
+        return { matched: rows.length, saved: saved.length, name: checked.name }
+    }
+
+    /**
+     * Import a calendar CSV with a header row: date, schedule[, note].
+     * schedule is a template name or ID; blank or "no school"/"holiday" declares
+     * a day off. Nothing is written if any row is bad, and dryRun only checks.
+     */
+    static async importCalendar(schoolId: string, csv: string, opts: { dryRun?: boolean } = {}) {
+        const [header, ...lines] = parseCsv(csv)
+        const columns = (header ?? []).map((h) => h.trim().toLowerCase())
+        const dateCol = columns.indexOf("date")
+        const scheduleCol = columns.findIndex((c) => c === "schedule" || c === "bell_schedule")
+        const noteCol = columns.indexOf("note")
+
+        if (dateCol === -1 || scheduleCol === -1) {
+            throw new ScheduleAdminError("CSV needs a header row with date and schedule columns", 400)
+        }
+        if (!lines.length) {
+            throw new ScheduleAdminError("CSV has no rows", 400)
+        }
+        if (lines.length > MAX_CSV_ROWS) {
+            throw new ScheduleAdminError(`CSV is limited to ${MAX_CSV_ROWS} rows`, 400)
+        }
+
+        const templates = await ScheduleAdminService.listTemplates(schoolId)
+        const byName = new Map<string, { id: string; name: string }>()
+        for (const t of templates) {
+            // The school's own template wins over a shared one with the same name
+            const key = String(t.name).trim().toLowerCase()
+            if (!byName.has(key) || t.school_id) byName.set(key, t)
+        }
+        const byId = new Map(templates.map((t) => [t.id as string, t]))
+
+        const errors: string[] = []
+        const seen = new Set<string>()
+        const rows: { day: string; bell_schedule_id: string | null; note: string | null }[] = []
+
+        lines.forEach((line, i) => {
+            const lineNo = i + 2 // 1-based, after the header
+            const date = (line[dateCol] ?? "").trim()
+            const value = (line[scheduleCol] ?? "").trim()
+            const note = noteCol === -1 ? "" : (line[noteCol] ?? "").trim()
+
+            if (!isValidDate(date)) {
+                errors.push(`Line ${lineNo}: "${date}" is not a YYYY-MM-DD date`)
+                return
+            }
+            if (seen.has(date)) {
+                errors.push(`Line ${lineNo}: ${date} appears more than once`)
+                return
+            }
+            seen.add(date)
+
+            if (NO_SCHOOL_VALUES.has(value.toLowerCase())) {
+                rows.push({ day: date, bell_schedule_id: null, note: note.slice(0, 200) || (value || null) })
+                return
+            }
+
+            const template = byId.get(value) ?? byName.get(value.toLowerCase())
+            if (!template) {
+                errors.push(`Line ${lineNo}: no bell schedule named "${value}"`)
+                return
+            }
+            rows.push({ day: date, bell_schedule_id: template.id, note: note.slice(0, 200) || null })
+        })
+
+        if (errors.length) {
+            throw new ScheduleAdminError("CSV has errors; nothing was imported", 400, errors)
+        }
+
+        const schoolDays = rows.filter((r) => r.bell_schedule_id).length
+        const summary = { rows: rows.length, school_days: schoolDays, days_off: rows.length - schoolDays }
+
+        if (opts.dryRun) {
+            return { ...summary, dry_run: true }
+        }
+
+        await ScheduleAdminService.upsertDays(schoolId, rows, true)
+        return { ...summary, dry_run: false }
+    }
+}
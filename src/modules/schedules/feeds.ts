@@ -0,0 +1,228 @@
+// subscribable iCalendar feeds: a school's bell schedule labeled with the owner's classes
+
+import { createHash, randomBytes } from "crypto"
+import { supabase } from "../../config/supabase"
+import env from "../../config/env"
+import { SchedulesService } from "./service"
+import { addDays, dateInTimeZone, zonedTimeToUtc } from "./time"
+import { classesByPeriod, classForPeriod, normalizePeriods } from "./periods"
+import { buildCalendar, type CalendarEvent } from "./ics"
+
+// Recognisable in logs and secret scanners
+const TOKEN_PREFIX = "slc_"
+
+// Columns safe to show back to the user (never the hash)
+const FEED_COLUMNS = "id, school_id, token_prefix, lookahead_days, last_accessed_at, created_at"
+
+export const DEFAULT_LOOKAHEAD_DAYS = 60
+export const MAX_LOOKAHEAD_DAYS = 180
+
+// Keep the past week in the feed so clients don't drop events the moment they end
+const PAST_DAYS = 7
+
+// Only write last_accessed_at when it is at least this stale; clients poll often
+const LAST_ACCESSED_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * A feed request the caller can fix, with the HTTP status to answer it with
+ */
+export class CalendarFeedError extends Error {
+    statusCode: number
+
+    constructor(message: string, statusCode: number) {
+        super(message)
+        this.name = "CalendarFeedError"
+        this.statusCode = statusCode
+    }
+}
+
+export interface CalendarFeed {
+    id: string
+    user_id: string
+    school_id: string
+    lookahead_days: number
+    last_accessed_at: string | null
+}
+
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex")
+}
+
+function feedUrl(token: string): string {
+    return `${env.API_URL}/api/schedules/feeds/${token}.ics`
+}
+
+function slug(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "period"
+}
+
+export class CalendarFeedsService {
+    /**
+     * Create a feed for a school (the user's own unless given). The feed URL
+     * carries the plain token and is only returned here; we keep its hash.
+     */
+    static async createFeed(userId: string, input: { schoolId?: string; lookaheadDays: number }) {
+        let schoolId = input.schoolId
+        if (!schoolId) {
+            const { data: user, error } = await supabase
+                .schema("core")
+                .from("users")
+                .select("school_id")
+                .eq("id", userId)
+                .single()
+
+            if (error) {
+                throw new Error(`Failed to fetch user: ${error.message}`)
+            }
+            if (!user?.school_id) {
+                throw new CalendarFeedError("No school on your account; pass school_id", 400)
+            }
+            schoolId = user.school_id as string
+        } else {
+            const { data: school, error } = await supabase
+                .schema("core")
+                .from("schools")
+                .select("id")
+                .eq("id", schoolId)
+                .maybeSingle()
+
+            if (error) {
+                throw new Error(`Failed to fetch school: ${error.message}`)
+            }
+            if (!school) {
+                throw new CalendarFeedError("School not found", 404)
+            }
+        }
+
+        const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`
+
+        const { data: feed, error } = await supabase
+            .schema("core")
+            .from("calendar_feeds")
+            .insert({
+                user_id: userId,
+                school_id: schoolId,
+                token_hash: hashToken(token),
+                token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+                lookahead_days: input.lookaheadDays
+            })
+            .select(FEED_COLUMNS)
+            .single()
+
+        if (error) {
+            throw new Error(`Failed to create feed: ${error.message}`)
+        }
+
+        const url = feedUrl(token)
+        return { feed, url, webcal_url: url.replace(/^https?:/, "webcal:") }
+    }
+
+    /**
+     * The user's active feeds, newest first
+     */
+    static async listFeeds(userId: string) {
+        const { data: feeds, error } = await supabase
+            .schema("core")
+            .from("calendar_feeds")
+            .select(FEED_COLUMNS)
+            .eq("user_id", userId)
+            .is("revoked_at", null)
+            .order("created_at", { ascending: false })
+
+        if (error) {
+            throw new Error(`Failed to list feeds: ${error.message}`)
+        }
+
+        return feeds || []
+    }
+
+    /**
+     * Revoke a feed; returns false if it isn't the user's (or is already revoked)
+     */
+    static async revokeFeed(userId: string, feedId: string): Promise<boolean> {
+        const { data, error } = await supabase
+            .schema("core")
+            .from("calendar_feeds")
+            .update({ revoked_at: new Date().toISOString() })
+            .eq("id", feedId)
+            .eq("user_id", userId)
+            .is("revoked_at", null)
+            .select("id")
+
+        if (error) {
+            throw new Error(`Failed to revoke feed: ${error.message}`)
+        }
+
+        return (data || []).length > 0
+    }
+
+    /**
+     * The active feed a URL token belongs to, or null
+     */
+    static async getFeedByToken(token: string): Promise<CalendarFeed | null> {
+        const { data: feed, error } = await supabase
+            .schema("core")
+            .from("calendar_feeds")
+            .select("id, user_id, school_id, lookahead_days, last_accessed_at, revoked_at")
+            .eq("token_hash", hashToken(token))
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch feed: ${error.message}`)
+        }
+        if (!feed || feed.revoked_at) {
+            return null
+        }
+
+        const lastAccessed = feed.last_accessed_at ? Date.parse(feed.last_accessed_at) : 0
+        if (Date.now() - lastAccessed > LAST_ACCESSED_INTERVAL_MS) {
+            await supabase
+                .schema("core")
+                .from("calendar_feeds")
+                .update({ last_accessed_at: new Date().toISOString() })
+                .eq("id", feed.id)
+        }
+
+        return feed
+    }
+
+    /**
+     * The feed as an iCalendar document: one event per period of each school
+     * day from a week ago through the look-ahead window. UIDs are built from
+     * the date and period name so edits update events instead of duplicating them.
+     */
+    static async renderFeed(feed: CalendarFeed): Promise<string> {
+        const timezone = await SchedulesService.getSchoolTimeZone(feed.school_id)
+        const today = dateInTimeZone(new Date(), timezone)
+
+        const [days, personal] = await Promise.all([
+            SchedulesService.getScheduleRange(feed.school_id, addDays(today, -PAST_DAYS), addDays(today, feed.lookahead_days)),
+            SchedulesService.getPersonalSchedule(feed.user_id)
+        ])
+        const classes = classesByPeriod(personal)
+        const host = new URL(env.API_URL).hostname
+
+        const events: CalendarEvent[] = []
+        for (const day of days) {
+            const seen = new Set<string>()
+            for (const period of normalizePeriods(day.schedule)) {
+                let key = slug(period.name)
+                // Two periods with the same name on one day still need distinct UIDs
+                for (let n = 2; seen.has(key); n++) key = `${slug(period.name)}-${n}`
+                seen.add(key)
+
+                const cls = classForPeriod(period, classes)
+                events.push({
+                    uid: `${day.date.replace(/-/g, "")}-${key}-${feed.id}@${host}`,
+                    start: zonedTimeToUtc(day.date, period.start_minutes, timezone),
+                    end: zonedTimeToUtc(day.date, period.end_minutes, timezone),
+                    summary: cls?.name ?? period.name,
+                    description: [cls ? period.name : null, cls?.teacher, day.name].filter(Boolean).join("\n"),
+                    location: cls?.room
+                })
+            }
+        }
+
+        return buildCalendar({ name: "Class schedule", timezone, events })
+    }
+}
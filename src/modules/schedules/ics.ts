@@ -0,0 +1,93 @@
+// RFC 5545 iCalendar output for bell schedule feeds
+
+export interface CalendarEvent {
+    uid: string
+    start: Date
+    end: Date
+    summary: string
+    description?: string | null
+    location?: string | null
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * 20261019T120500Z
+ */
+function formatUtc(instant: Date): string {
+    return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with CRLF + space (RFC 5545 3.1),
+ * without splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+    const chunks: string[] = []
+    let chunk = ''
+    let octets = 0
+    for (const char of line) {
+        const size = Buffer.byteLength(char)
+        // Continuation lines spend one octet on the leading space
+        if (octets + size > (chunks.length ? 74 : 75)) {
+            chunks.push(chunk)
+            chunk = ''
+            octets = 0
+        }
+        chunk += char
+        octets += size
+    }
+    chunks.push(chunk)
+    return chunks.join('\r\n ')
+}
+
+/**
+ * A VCALENDAR with one VEVENT per event. Times are written in UTC so no
+ * VTIMEZONE is needed; X-WR-TIMEZONE hints the display zone to clients.
+ */
+export function buildCalendar(opts: {
+    name: string
+    timezone: string
+    events: CalendarEvent[]
+    stamp?: Date
+}): string {
+    const stamp = formatUtc(opts.stamp ?? new Date())
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Slate//Bell Schedules//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(opts.name)}`,
+        `X-WR-TIMEZONE:${opts.timezone}`,
+        // Ask subscribing clients to refresh a few times a day
+        'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+        'X-PUBLISHED-TTL:PT6H'
+    ]
+
+    for (const event of opts.events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${formatUtc(event.start)}`,
+            `DTEND:${formatUtc(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`
+        )
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+        if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+        lines.push('TRANSP:OPAQUE', 'END:VEVENT')
+    }
+
+    lines.push('END:VCALENDAR')
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+}
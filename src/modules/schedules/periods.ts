@@ -0,0 +1,201 @@
+// bell schedule periods, personal classes and "what's on now"
+
+export interface Period {
+    name: string
+    start: string // HH:MM, 24-hour
+    end: string
+    start_minutes: number
+    end_minutes: number
+}
+
+export interface PersonalClass {
+    name: string
+    room: string | null
+    teacher: string | null
+}
+
+/**
+ * "08:05", "8:05", "8:05 AM", "14:30:00" -> minutes since midnight, or null
+ */
+export function parseClockTime(value: unknown): number | null {
+    if (typeof value !== 'string') return null
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/)
+    if (!match) return null
+
+    let hours = Number(match[1])
+    const minutes = Number(match[2])
+    const meridiem = match[3]?.toLowerCase()
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null
+        hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0)
+    }
+    if (hours > 23 || minutes > 59) return null
+    return hours * 60 + minutes
+}
+
+export function formatClockTime(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+function firstString(item: Record<string, unknown>, keys: string[]): string | null {
+    for (const key of keys) {
+        const value = item[key]
+        if (typeof value === 'string' && value.trim()) return value.trim()
+        if (typeof value === 'number') return String(value)
+    }
+    return null
+}
+
+/**
+ * bell_schedules.schedule_data as ordered periods. Accepts an array or
+ * { periods: [...] }, and the start/end key spellings used across schools.
+ */
+export function normalizePeriods(scheduleData: unknown): Period[] {
+    const raw = Array.isArray(scheduleData)
+        ? scheduleData
+        : Array.isArray((scheduleData as { periods?: unknown })?.periods)
+            ? (scheduleData as { periods: unknown[] }).periods
+            : []
+
+    const periods: Period[] = []
+    for (const item of raw) {
+        if (!item || typeof item !== 'object') continue
+        const entry = item as Record<string, unknown>
+        const start = parseClockTime(entry.start ?? entry.start_time ?? entry.startTime)
+        const end = parseClockTime(entry.end ?? entry.end_time ?? entry.endTime)
+        if (start === null || end === null || end <= start) continue
+
+        periods.push({
+            name: firstString(entry, ['name', 'period', 'label', 'title']) ?? `Period ${periods.length + 1}`,
+            start: formatClockTime(start),
+            end: formatClockTime(end),
+            start_minutes: start,
+            end_minutes: end
+        })
+    }
+
+    return periods.sort((a, b) => a.start_minutes - b.start_minutes)
+}
+
+/**
+ * personal_schedules.schedule_data as an array of class entries (the JSONB
+ * may be the array itself or nested under schedule/classes)
+ */
+export function personalScheduleEntries(raw: unknown): unknown[] {
+    if (Array.isArray(raw)) return raw
+
+    const nested = raw && typeof raw === 'object' ? raw as { schedule?: unknown, classes?: unknown } : {}
+    return Array.isArray(nested.schedule)
+        ? nested.schedule
+        : Array.isArray(nested.classes)
+            ? nested.classes
+            : []
+}
+
+function periodKey(name: string): string {
+    // "Period 3", "3rd period", "P3" and "3" all key to "3"; named blocks key to themselves
+    const digits = name.match(/\d+/)
+    return digits ? digits[0].replace(/^0+(?=\d)/, '') : name.trim().toLowerCase()
+}
+
+/**
+ * Index the user's classes by the period they meet in
+ */
+export function classesByPeriod(entries: unknown[]): Map<string, PersonalClass> {
+    const byPeriod = new Map<string, PersonalClass>()
+    for (const item of entries) {
+        if (!item || typeof item !== 'object') continue
+        const entry = item as Record<string, unknown>
+        const period = firstString(entry, ['period', 'period_name', 'block'])
+        const name = firstString(entry, ['name', 'class_name', 'course', 'title', 'subject'])
+        if (!period || !name) continue
+        byPeriod.set(periodKey(period), {
+            name,
+            room: firstString(entry, ['room', 'location']),
+            teacher: firstString(entry, ['teacher', 'instructor'])
+        })
+    }
+    return byPeriod
+}
+
+export function classForPeriod(period: Period, classes: Map<string, PersonalClass>): PersonalClass | null {
+    return classes.get(periodKey(period.name)) ?? null
+}
+
+export type NowStatus = 'no_school' | 'before_school' | 'in_class' | 'passing' | 'after_school'
+
+/**
+ * Where `minutes` (since midnight, fractional) falls in the day's periods
+ */
+export function whatsOnNow(periods: Period[], minutes: number) {
+    if (!periods.length) {
+        return { status: 'no_school' as NowStatus, current: null, next: null, minutes_remaining: null, minutes_until_next: null }
+    }
+
+    const currentIndex = periods.findIndex((p) => minutes >= p.start_minutes && minutes < p.end_minutes)
+    const current = currentIndex === -1 ? null : periods[currentIndex]!
+    const next = periods.find((p) => p.start_minutes > minutes && p !== current) ?? null
+
+    let status: NowStatus
+    if (current) status = 'in_class'
+    else if (minutes < periods[0]!.start_minutes) status = 'before_school'
+    else if (next) status = 'passing'
+    else status = 'after_school'
+
+    return {
+        status,
+        current,
+        next,
+        minutes_remaining: current ? Math.ceil(current.end_minutes - minutes) : null,
+        minutes_until_next: next ? Math.ceil(next.start_minutes - minutes) : null
+    }
+}
+
+/**
+ * Validate a bell schedule template's periods as admins send them:
+ * [{ name, start, end }], in order, with no overlaps. Returns the canonical
+ * schedule_data (24-hour HH:MM) or every problem found.
+ */
+export function validatePeriods(input: unknown): { periods: { name: string, start: string, end: string }[] } | { errors: string[] } {
+    if (!Array.isArray(input) || !input.length) {
+        return { errors: ['periods must be a non-empty array of { name, start, end }'] }
+    }
+
+    const errors: string[] = []
+    const periods: { name: string, start: string, end: string }[] = []
+    const names = new Set<string>()
+    let previousEnd: number | null = null
+
+    input.forEach((item, i) => {
+        const label = `periods[${i}]`
+        if (!item || typeof item !== 'object') {
+            errors.push(`${label} must be an object`)
+            return
+        }
+
+        const entry = item as Record<string, unknown>
+        const name = typeof entry.name === 'string' ? entry.name.trim() : ''
+        const start = parseClockTime(entry.start)
+        const end = parseClockTime(entry.end)
+
+        if (!name || name.length > 100) errors.push(`${label}.name is required (at most 100 characters)`)
+        else if (names.has(name.toLowerCase())) errors.push(`${label}.name "${name}" is used twice`)
+        if (start === null) errors.push(`${label}.start must be a time like 08:05`)
+        if (end === null) errors.push(`${label}.end must be a time like 08:50`)
+
+        if (start !== null && end !== null) {
+            if (end <= start) errors.push(`${label} must end after it starts`)
+            if (previousEnd !== null && start < previousEnd) {
+                errors.push(`${label} starts at ${formatClockTime(start)}, before the previous period ends at ${formatClockTime(previousEnd)}`)
+            }
+            previousEnd = Math.max(previousEnd ?? 0, end)
+        }
+
+        names.add(name.toLowerCase())
+        if (name && start !== null && end !== null) {
+            periods.push({ name, start: formatClockTime(start), end: formatClockTime(end) })
+        }
+    })
+
+    return errors.length ? { errors } : { periods }
+}
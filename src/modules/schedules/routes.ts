@@ -1,14 +1,36 @@
-import type { FastifyPluginAsync } from "fastify"
+import type { FastifyPluginAsync, FastifyReply, FastifyRequest } from "fastify"
 import { supabase } from "../../config/supabase"
-import { optionalAuth, requireAuth } from '../../plugins/auth'
-import { request } from "node:http";
+import { optionalAuth, requireAuth, requireSchoolAdmin } from '../../plugins/auth'
+import { MAX_RANGE_DAYS, SchedulesService } from "./service"
+import { ScheduleAdminError, ScheduleAdminService } from "./admin"
+import { CalendarFeedError, CalendarFeedsService, DEFAULT_LOOKAHEAD_DAYS, MAX_LOOKAHEAD_DAYS } from "./feeds"
+import { addDays, dateInTimeZone, isValidDate, isValidTimeZone, zonedParts } from "./time"
+import { classesByPeriod, classForPeriod, normalizePeriods, parseClockTime, personalScheduleEntries, whatsOnNow, type Period } from "./periods"
 
-function formatDateLocal(date: any) {
-    const year = date.getFullYear();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
-    return `${year}-${month}-${day}`;
+/**
+ * The date a lookup is for: ?date= if given, otherwise today (plus offsetDays)
+ * in the school's timezone, or in ?tz= when overridden
+ */
+async function resolveDate(
+    request: FastifyRequest,
+    schoolId: string,
+    offsetDays = 0
+): Promise<{ date: string, timezone: string } | { error: string }> {
+    const { date, tz } = request.query as { date?: string, tz?: string }
+
+    if (tz !== undefined && !isValidTimeZone(tz)) {
+        return { error: "tz must be an IANA timezone, e.g. America/Chicago" }
+    }
+    if (date !== undefined && !isValidDate(date)) {
+        return { error: "date must be a YYYY-MM-DD date" }
+    }
+
+    const timezone = tz ?? await SchedulesService.getSchoolTimeZone(schoolId)
+    const day = date ?? dateInTimeZone(new Date(), timezone)
+
+    return { date: addDays(day, offsetDays), timezone }
 }
 
 
@@ -18,34 +40,37 @@ const routes: FastifyPluginAsync = async (fastify) => {
     fastify.get("/:schoolInitials/today", async (request, reply) => {
         const { schoolInitials } = request.params as { schoolInitials: string }
 
-        const todayLocal = new Date()
-        const formatted = formatDateLocal(todayLocal)
-
-        // date is the current date in the format YYYY-MM-DD
+        try {
+            const schoolId = await SchedulesService.getSchoolIdByInitials(schoolInitials)
+            if (!schoolId) { return reply.status(404).send({ message: "School not found" }) }
 
-        const { data, error } = await supabase.schema("core").from("bell_schedule_days").select("*").eq("school_initials", schoolInitials).eq("day", formatted).single() // ensure its the date for eastern time
-        const { data: schedule, error: sError } = await supabase.schema("core").from("bell_schedules").select("schedule_data, name").eq("id", data.bell_schedule_id).single()
+            const resolved = await resolveDate(request, schoolId)
+            if ("error" in resolved) { return reply.status(400).send({ message: resolved.error }) }
 
-        if (error || sError) { return reply.status(500).send({ message: "Error fetching schedule" + error?.message + sError?.message }) }
+            const result = await SchedulesService.getScheduleForDay(schoolId, resolved.date)
+            if (!result) { return reply.status(404).send({ message: "No schedule for " + resolved.date, date: resolved.date }) }
 
-        return reply.status(200).send({ name: schedule.name, schedule: schedule.schedule_data })
+            return reply.status(200).send({ name: result.name, schedule: result.schedule, date: resolved.date, timezone: resolved.timezone })
+        } catch (error) {
+            return reply.status(500).send({ message: "Error fetching schedule: " + (error instanceof Error ? error.message : error) })
+        }
     })
 
     // public route for schedule id; no auth for this one
     fastify.get("/id/:schoolId/today", async (request, reply) => {
         const { schoolId } = request.params as { schoolId: string }
 
-        const todayLocal = new Date()
-        const formatted = formatDateLocal(todayLocal)
-
-        // date is the current date in the format YYYY-MM-DD
-
-        const { data, error } = await supabase.schema("core").from("bell_schedule_days").select("*").eq("school_id", schoolId).eq("day", formatted).single() // ensure its the date for eastern time
-        const { data: schedule, error: sError } = await supabase.schema("core").from("bell_schedules").select("schedule_data, name").eq("id", data.bell_schedule_id).single()
+        try {
+            const resolved = await resolveDate(request, schoolId)
+            if ("error" in resolved) { return reply.status(400).send({ message: resolved.error }) }
 
-        if (error || sError) { return reply.status(500).send({ message: "Error fetching schedule" + error?.message + sError?.message }) }
+            const result = await SchedulesService.getScheduleForDay(schoolId, resolved.date)
+            if (!result) { return reply.status(404).send({ message: "No schedule for " + resolved.date, date: resolved.date }) }
 
-        return reply.status(200).send({ name: schedule.name, schedule: schedule.schedule_data })
+            return reply.status(200).send({ name: result.name, schedule: result.schedule, date: resolved.date, timezone: resolved.timezone })
+        } catch (error) {
+            return reply.status(500).send({ message: "Error fetching schedule: " + (error instanceof Error ? error.message : error) })
+        }
     })
 
     // route for personal schedule
@@ -68,28 +93,337 @@ const routes: FastifyPluginAsync = async (fastify) => {
         }
 
         // Normalize: ensure schedule is always an array (JSONB may be object or nested)
-        const raw = data.schedule_data
-        const schedule = Array.isArray(raw)
-            ? raw
-            : Array.isArray(raw?.schedule)
-                ? raw.schedule
-                : Array.isArray(raw?.classes)
-                    ? raw.classes
-                    : []
+        const schedule = personalScheduleEntries(data.schedule_data)
         return reply.status(200).send({ schedule })
     })
 
     // helper route to get tomorrows schedule TYPE via school id
     fastify.get("/id/:schoolId/tomorrow", async (request, reply) => {
         const { schoolId } = request.params as { schoolId: string }
-        const tomorrowLocal = new Date()
-        tomorrowLocal.setDate(tomorrowLocal.getDate() + 1)
-        const formatted = formatDateLocal(tomorrowLocal)
-        const { data, error } = await supabase.schema("core").from("bell_schedule_days").select("*").eq("school_id", schoolId).eq("day", formatted).single() // ensure its the date for eastern time
-        if (error) { return reply.status(500).send({ message: "Error fetching schedule" + error?.message }) }
-        const { data: schedule, error: sError } = await supabase.schema("core").from("bell_schedules").select("name").eq("id", data.bell_schedule_id).single()
-        if (sError) { return reply.status(500).send({ message: "Error fetching schedule" + sError?.message }) }
-        return reply.status(200).send({ name: schedule?.name })
+
+        try {
+            // ?date= here is the day to look *after*, like today is for /today
+            const resolved = await resolveDate(request, schoolId, 1)
+            if ("error" in resolved) { return reply.status(400).send({ message: resolved.error }) }
+
+            const result = await SchedulesService.getScheduleForDay(schoolId, resolved.date)
+            if (!result) { return reply.status(404).send({ message: "No schedule for " + resolved.date, date: resolved.date }) }
+
+            return reply.status(200).send({ name: result.name, date: resolved.date, timezone: resolved.timezone })
+        } catch (error) {
+            return reply.status(500).send({ message: "Error fetching schedule: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // public route: every day's schedule in a date range (defaults to the coming week)
+    fastify.get("/id/:schoolId/range", async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+        const { from, to } = request.query as { from?: string, to?: string }
+
+        if (from !== undefined && !isValidDate(from)) { return reply.status(400).send({ message: "from must be a YYYY-MM-DD date" }) }
+        if (to !== undefined && !isValidDate(to)) { return reply.status(400).send({ message: "to must be a YYYY-MM-DD date" }) }
+
+        try {
+            const timezone = await SchedulesService.getSchoolTimeZone(schoolId)
+            const start = from ?? dateInTimeZone(new Date(), timezone)
+            const end = to ?? addDays(start, 6)
+
+            if (end < start) { return reply.status(400).send({ message: "to must not be before from" }) }
+
+            const days = (Date.parse(end) - Date.parse(start)) / 86400000 + 1
+            if (days > MAX_RANGE_DAYS) {
+                return reply.status(400).send({ message: `Range is limited to ${MAX_RANGE_DAYS} days` })
+            }
+
+            const schedule = await SchedulesService.getScheduleRange(schoolId, start, end)
+
+            return reply.status(200).send({ from: start, to: end, timezone, days: schedule })
+        } catch (error) {
+            return reply.status(500).send({ message: "Error fetching schedule: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // public route: current/next period and countdown; signed-in users also get their classes
+    fastify.get("/id/:schoolId/now", { preHandler: [optionalAuth] }, async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+        const { time } = request.query as { time?: string }
+
+        try {
+            const resolved = await resolveDate(request, schoolId)
+            if ("error" in resolved) { return reply.status(400).send({ message: resolved.error }) }
+
+            // ?time=HH:MM pins the clock (with ?date=) for testing; otherwise it's now at the school
+            let minutes: number
+            if (time !== undefined) {
+                const parsed = parseClockTime(time)
+                if (parsed === null) { return reply.status(400).send({ message: "time must be HH:MM" }) }
+                minutes = parsed
+            } else {
+                const now = zonedParts(new Date(), resolved.timezone)
+                minutes = now.hour * 60 + now.minute + now.second / 60
+            }
+
+            const [result, personal] = await Promise.all([
+                SchedulesService.getScheduleForDay(schoolId, resolved.date),
+                request.userId ? SchedulesService.getPersonalSchedule(request.userId) : Promise.resolve([])
+            ])
+
+            const classes = classesByPeriod(personal)
+            const withClass = (period: Period | null) => period && {
+                name: period.name,
+                start: period.start,
+                end: period.end,
+                class: classForPeriod(period, classes)
+            }
+
+            const periods = normalizePeriods(result?.schedule)
+            const now = whatsOnNow(periods, minutes)
+
+            return reply.status(200).send({
+                date: resolved.date,
+                timezone: resolved.timezone,
+                time: `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(Math.floor(minutes % 60)).padStart(2, "0")}`,
+                name: result?.name ?? null,
+                status: now.status,
+                in_session: now.status === "in_class" || now.status === "passing",
+                current_period: withClass(now.current),
+                next_period: withClass(now.next),
+                minutes_remaining: now.minutes_remaining,
+                minutes_until_next: now.minutes_until_next
+            })
+        } catch (error) {
+            return reply.status(500).send({ message: "Error fetching schedule: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // public route: iCalendar feed; the token in the URL is the credential
+    fastify.get("/feeds/:token.ics", async (request, reply) => {
+        const { token } = request.params as { token: string }
+
+        try {
+            const feed = await CalendarFeedsService.getFeedByToken(token)
+            if (!feed) { return reply.status(404).send({ message: "Feed not found" }) }
+
+            const calendar = await CalendarFeedsService.renderFeed(feed)
+
+            return reply
+                .status(200)
+                .header("Content-Type", "text/calendar; charset=utf-8")
+                .header("Content-Disposition", 'inline; filename="schedule.ics"')
+                .header("Cache-Control", "private, max-age=900")
+                .send(calendar)
+        } catch (error) {
+            return reply.status(500).send({ message: "Error building feed: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // route to list the user's calendar feeds
+    fastify.get("/feeds", { preHandler: [requireAuth] }, async (request, reply) => {
+        try {
+            const feeds = await CalendarFeedsService.listFeeds(request.userId!)
+            return reply.status(200).send({ feeds })
+        } catch (error) {
+            return reply.status(500).send({ message: "Error fetching feeds: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // route to create a calendar feed; its URL is shown once
+    fastify.post("/feeds", { preHandler: [requireAuth] }, async (request, reply) => {
+        const { school_id, lookahead_days = DEFAULT_LOOKAHEAD_DAYS } = (request.body || {}) as { school_id?: string, lookahead_days?: number }
+
+        if (school_id !== undefined && (typeof school_id !== "string" || !UUID_PATTERN.test(school_id))) {
+            return reply.status(400).send({ message: "school_id must be a school ID" })
+        }
+        if (!Number.isInteger(lookahead_days) || lookahead_days < 1 || lookahead_days > MAX_LOOKAHEAD_DAYS) {
+            return reply.status(400).send({ message: `lookahead_days must be between 1 and ${MAX_LOOKAHEAD_DAYS}` })
+        }
+
+        try {
+            const result = await CalendarFeedsService.createFeed(request.userId!, { schoolId: school_id, lookaheadDays: lookahead_days })
+            return reply.status(201).send(result)
+        } catch (error) {
+            if (error instanceof CalendarFeedError) { return reply.status(error.statusCode).send({ message: error.message }) }
+            fastify.log.error(error)
+            return reply.status(500).send({ message: "Error creating feed: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // route to revoke a calendar feed; subscribed calendars stop updating
+    fastify.delete("/feeds/:id", { preHandler: [requireAuth] }, async (request, reply) => {
+        const { id } = request.params as { id: string }
+
+        try {
+            const revoked = await CalendarFeedsService.revokeFeed(request.userId!, id)
+            if (!revoked) { return reply.status(404).send({ message: "Feed not found" }) }
+
+            return reply.status(204).send()
+        } catch (error) {
+            return reply.status(500).send({ message: "Error revoking feed: " + (error instanceof Error ? error.message : error) })
+        }
+    })
+
+    // --- School admin: bell schedule templates and the school calendar ---
+
+    /**
+     * Answer ScheduleAdminErrors with their own status (and any per-item
+     * problems), anything else with a 500
+     */
+    function sendAdminError(reply: FastifyReply, error: unknown, message: string) {
+        if (error instanceof ScheduleAdminError) {
+            return reply.status(error.statusCode).send({ message: error.message, ...(error.details ? { errors: error.details } : {}) })
+        }
+        fastify.log.error(error)
+        return reply.status(500).send({ message: message + ": " + (error instanceof Error ? error.message : error) })
+    }
+
+    const adminOnly = { preHandler: [requireAuth, requireSchoolAdmin] }
+
+    // school admin route: set the initials the public /:schoolInitials routes use
+    fastify.put("/id/:schoolId/initials", adminOnly, async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+        const { initials } = (request.body || {}) as { initials?: unknown }
+
+        try {
+            const school = await ScheduleAdminService.setInitials(schoolId, initials)
+            return reply.status(200).send({ school })
+        } catch (error) {
+            return sendAdminError(reply, error, "Error saving initials")
+        }
+    })
+
+    // school admin route: templates the school can assign
+    fastify.get("/id/:schoolId/bell-schedules", adminOnly, async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+
+        try {
+            const schedules = await ScheduleAdminService.listTemplates(schoolId)
+            return reply.status(200).send({ schedules })
+        } catch (error) {
+            return sendAdminError(reply, error, "Error fetching bell schedules")
+        }
+    })
+
+    // school admin route: create a template from ordered { name, start, end } periods
+    fastify.post("/id/:schoolId/bell-schedules", adminOnly, async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+        const { name, periods } = (request.body || {}) as { name?: unknown, periods?: unknown }
+
+        try {
+            const schedule = await ScheduleAdminService.createTemplate(schoolId, { name, periods })
+            return reply.status(201).send({ schedule })
+        } catch (error) {
+            return sendAdminError(reply, error, "Error creating bell schedule")
+        }
+    })
+
+    // school admin route: rename a template or replace its periods
+    fastify.patch("/id/:schoolId/bell-schedules/:id", adminOnly, async (request, reply) => {
+        const { schoolId, id } = request.params as { schoolId: string, id: string }
+        const { name, periods } = (request.body || {}) as { name?: unknown, periods?: unknown }
+
+        try {
+            const schedule = await ScheduleAdminService.updateTemplate(schoolId, id, { name, periods })
+            return reply.status(200).send({ schedule })
+        } catch (error) {
+            return sendAdminError(reply, error, "Error updating bell schedule")
+        }
+    })
+
+    // school admin route: delete a template no day uses
+    fastify.delete("/id/:schoolId/bell-schedules/:id", adminOnly, async (request, reply) => {
+        const { schoolId, id } = request.params as { schoolId: string, id: string }
+
+        try {
+            await ScheduleAdminService.deleteTemplate(schoolId, id)
+            return reply.status(204).send()
+        } catch (error) {
+            return sendAdminError(reply, error, "Error deleting bell schedule")
+        }
+    })
+
+    // school admin route: set which bell schedule a day uses, or { no_school: true, note } for a day off
+    fastify.put("/id/:schoolId/days/:day", adminOnly, async (request, reply) => {
+        const { schoolId, day } = request.params as { schoolId: string, day: string }
+        const { bell_schedule_id, no_school, note } = (request.body || {}) as { bell_schedule_id?: string, no_school?: boolean, note?: string }
+
+        if (!bell_schedule_id && !no_school) {
+            return reply.status(400).send({ message: "bell_schedule_id is required (or no_school: true)" })
+        }
+
+        try {
+            const result = await ScheduleAdminService.setDay(schoolId, day, { bell_schedule_id: no_school ? null : bell_schedule_id!, note })
+            return reply.status(200).send(result)
+        } catch (error) {
+            return sendAdminError(reply, error, "Error saving day")
+        }
+    })
+
+    // school admin route: remove a day's entry
+    fastify.delete("/id/:schoolId/days/:day", adminOnly, async (request, reply) => {
+        const { schoolId, day } = request.params as { schoolId: string, day: string }
+
+        try {
+            const cleared = await ScheduleAdminService.clearDay(schoolId, day)
+            if (!cleared) { return reply.status(404).send({ message: "No entry for " + day }) }
+
+            return reply.status(204).send()
+        } catch (error) {
+            return sendAdminError(reply, error, "Error clearing day")
+        }
+    })
+
+    // school admin route: assign a template (or days off) to every matching weekday in a range
+    fastify.post("/id/:schoolId/days/bulk", adminOnly, async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+        const { from, to, weekdays, bell_schedule_id, no_school, note, overwrite } = (request.body || {}) as {
+            from?: string, to?: string, weekdays?: string[], bell_schedule_id?: string, no_school?: boolean, note?: string, overwrite?: boolean
+        }
+
+        if (typeof from !== "string" || typeof to !== "string") {
+            return reply.status(400).send({ message: "from and to are required" })
+        }
+        if (weekdays !== undefined && !Array.isArray(weekdays)) {
+            return reply.status(400).send({ message: "weekdays must be an array of day names" })
+        }
+        if (!bell_schedule_id && !no_school) {
+            return reply.status(400).send({ message: "bell_schedule_id is required (or no_school: true)" })
+        }
+
+        try {
+            const result = await ScheduleAdminService.assignDays(schoolId, {
+                from,
+                to,
+                weekdays,
+                overwrite: overwrite === true,
+                bell_schedule_id: no_school ? null : bell_schedule_id!,
+                note
+            })
+            return reply.status(200).send(result)
+        } catch (error) {
+            return sendAdminError(reply, error, "Error assigning days")
+        }
+    })
+
+    // Calendar uploads arrive as text/csv; keep the raw text
+    fastify.addContentTypeParser("text/csv", { parseAs: "string" }, (_request, body, done) => done(null, body))
+
+    // school admin route: import a calendar CSV (date,schedule,note); ?dry_run=true only validates
+    fastify.post("/id/:schoolId/days/import", adminOnly, async (request, reply) => {
+        const { schoolId } = request.params as { schoolId: string }
+        const { dry_run } = request.query as { dry_run?: string }
+
+        // text/csv body, or JSON { csv: "..." }
+        const csv = typeof request.body === "string" ? request.body : (request.body as { csv?: unknown } | undefined)?.csv
+        if (typeof csv !== "string" || !csv.trim()) {
+            return reply.status(400).send({ message: "Send the calendar as a text/csv body or JSON { csv }" })
+        }
+
+        try {
+            const result = await ScheduleAdminService.importCalendar(schoolId, csv, { dryRun: dry_run === "true" })
+            return reply.status(200).send(result)
+        } catch (error) {
+            return sendAdminError(reply, error, "Error importing calendar")
+        }
     })
 
 
@@ -0,0 +1,150 @@
+import { supabase } from "../../config/supabase"
+import { addDays, DEFAULT_TIMEZONE, isValidTimeZone } from "./time"
+import { personalScheduleEntries } from "./periods"
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+
+// Longest range one request may cover: a school year
+export const MAX_RANGE_DAYS = 366
+
+export class SchedulesService {
+    /**
+     * The school's IANA timezone (falls back to Eastern)
+     */
+    static async getSchoolTimeZone(schoolId: string): Promise<string> {
+        const { data, error } = await supabase
+            .schema("core")
+            .from("schools")
+            .select("timezone")
+            .eq("id", schoolId)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch school: ${error.message}`)
+        }
+
+        return data?.timezone && isValidTimeZone(data.timezone) ? data.timezone : DEFAULT_TIMEZONE
+    }
+
+    /**
+     * School ID for the initials used by the public /:schoolInitials routes
+     */
+    static async getSchoolIdByInitials(schoolInitials: string): Promise<string | null> {
+        // Initials are unique regardless of case; escape LIKE wildcards so they match literally
+        const { data, error } = await supabase
+            .schema("core")
+            .from("schools")
+            .select("id")
+            .ilike("initials", schoolInitials.replace(/[\\%_]/g, "\\$&"))
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch school: ${error.message}`)
+        }
+
+        return data?.id ?? null
+    }
+
+    /**
+     * A school's bell schedule for one date, or null if nothing is scheduled
+     */
+    static async getScheduleForDay(schoolId: string, day: string) {
+        const { data: scheduleDay, error } = await supabase
+            .schema("core")
+            .from("bell_schedule_days")
+            .select("*")
+            .eq("school_id", schoolId)
+            .eq("day", day)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch schedule day: ${error.message}`)
+        }
+
+        if (!scheduleDay?.bell_schedule_id) {
+            return null
+        }
+
+        const { data: schedule, error: sError } = await supabase
+            .schema("core")
+            .from("bell_schedules")
+            .select("schedule_data, name")
+            .eq("id", scheduleDay.bell_schedule_id)
+            .single()
+
+        if (sError) {
+            throw new Error(`Failed to fetch schedule: ${sError.message}`)
+        }
+
+        return { day: scheduleDay, name: schedule.name as string, schedule: schedule.schedule_data }
+    }
+
+    /**
+     * The user's personal class entries (empty if they haven't set any)
+     */
+    static async getPersonalSchedule(userId: string): Promise<unknown[]> {
+        const { data, error } = await supabase
+            .schema("core")
+            .from("personal_schedules")
+            .select("schedule_data")
+            .eq("user_id", userId)
+            .maybeSingle()
+
+        if (error) {
+            throw new Error(`Failed to fetch personal schedule: ${error.message}`)
+        }
+
+        return personalScheduleEntries(data?.schedule_data)
+    }
+
+    /**
+     * Every date from..to (inclusive) with its bell schedule. Dates without an
+     * assigned schedule come back as explicit no-school days.
+     */
+    static async getScheduleRange(schoolId: string, from: string, to: string) {
+        const { data: days, error } = await supabase
+            .schema("core")
+            .from("bell_schedule_days")
+            .select("*")
+            .eq("school_id", schoolId)
+            .gte("day", from)
+            .lte("day", to)
+
+        if (error) {
+            throw new Error(`Failed to fetch schedule days: ${error.message}`)
+        }
+
+        const scheduleIds = [...new Set((days || []).map((d) => d.bell_schedule_id).filter(Boolean))]
+        const { data: schedules, error: sError } = scheduleIds.length
+            ? await supabase.schema("core").from("bell_schedules").select("id, name, schedule_data").in("id", scheduleIds)
+            : { data: [] as { id: string, name: string, schedule_data: unknown }[], error: null }
+
+        if (sError) {
+            throw new Error(`Failed to fetch schedules: ${sError.message}`)
+        }
+
+        const dayByDate = new Map((days || []).map((d) => [d.day as string, d]))
+        const scheduleById = new Map((schedules || []).map((s) => [s.id, s]))
+
+        const result = []
+        for (let date = from; date <= to; date = addDays(date, 1)) {
+            const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+            const row = dayByDate.get(date)
+            const schedule = row?.bell_schedule_id ? scheduleById.get(row.bell_schedule_id) : undefined
+
+            result.push({
+                date,
+                weekday: WEEKDAYS[weekday],
+                school_day: !!schedule,
+                // Why there's no school: a declared day off, a weekend, or a weekday with nothing scheduled
+                no_school_reason: schedule ? null : row ? "holiday" : weekday === 0 || weekday === 6 ? "weekend" : "no_schedule",
+                note: row?.note ?? null,
+                bell_schedule_id: schedule?.id ?? null,
+                name: schedule?.name ?? null,
+                schedule: schedule?.schedule_data ?? null
+            })
+        }
+
+        return result
+    }
+}
@@ -0,0 +1,82 @@
+// calendar dates and clock times in a school's timezone
+
+export const DEFAULT_TIMEZONE = 'America/New_York'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isValidTimeZone(tz: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: tz })
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * YYYY-MM-DD that is a real calendar date (rejects 2026-02-30)
+ */
+export function isValidDate(date: string): boolean {
+    if (!DATE_PATTERN.test(date)) return false
+    const parsed = new Date(`${date}T00:00:00Z`)
+    return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date
+}
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+export function zonedParts(instant: Date, tz: string) {
+    const parts = Object.fromEntries(
+        new Intl.DateTimeFormat('en-US', {
+            timeZone: tz,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            hourCycle: 'h23'
+        })
+            .formatToParts(instant)
+            .map((p) => [p.type, p.value])
+    )
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second)
+    }
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function dateInTimeZone(instant: Date, tz: string): string {
+    return zonedParts(instant, tz).date
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`)
+    d.setUTCDate(d.getUTCDate() + days)
+    return d.toISOString().slice(0, 10)
+}
+
+/**
+ * The instant a wall-clock time (minutes since midnight) on a date happens in
+ * a timezone. Times inside a DST gap come out an hour off; no bell rings at 2am.
+ */
+export function zonedTimeToUtc(date: string, minutes: number, tz: string): Date {
+    const wall = Date.parse(`${date}T00:00:00Z`) + minutes * 60_000
+
+    // Correct by the zone's offset, twice so an offset change between the guess and the answer settles
+    let instant = wall
+    for (let i = 0; i < 2; i++) {
+        const parts = zonedParts(new Date(instant), tz)
+        const seen = Date.parse(`${parts.date}T00:00:00Z`) + ((parts.hour * 60 + parts.minute) * 60 + parts.second) * 1000
+        instant += wall - seen
+    }
+    return new Date(instant)
+}
@@ -1,23 +1,32 @@
 import type { FastifyRequest, FastifyReply } from "fastify"
+import { createHash } from "crypto"
 import { supabase } from "../config/supabase"
 
 /**
- * Extend FastifyRequest to include userId
+ * Extend FastifyRequest to include userId and the current session's ID
  */
 declare module "fastify" {
     interface FastifyRequest {
         userId?: string | null
+        sessionId?: string | null
+        // Set when the request authenticated with a personal API token instead of a cookie
+        apiTokenId?: string | null
+        // Set by requireStudentAccess: how the user relates to :studentId
+        studentAccess?: 'self' | 'counselor' | 'parent'
     }
 }
 
+// Only write last_seen_at when it is at least this stale, not on every request
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000
+
 /**
- * Verify session token and get user ID
+ * Verify session token and get the session's ID and user ID
  */
-async function verifySessionToken(token: string): Promise<string | null> {
+async function verifySessionToken(token: string): Promise<{ id: string; user_id: string } | null> {
     const { data: session, error: sessionError } = await supabase
         .schema('core')
         .from('sessions')
-        .select('user_id, expires_at')
+        .select('id, user_id, expires_at, last_seen_at')
         .eq('token', token)
         .single()
 
@@ -37,14 +46,122 @@ async function verifySessionToken(token: string): Promise<string | null> {
         return null
     }
 
-    return session.user_id
+    const lastSeen = session.last_seen_at ? Date.parse(session.last_seen_at) : 0
+    if (Date.now() - lastSeen > LAST_SEEN_INTERVAL_MS) {
+        await supabase
+            .schema('core')
+            .from('sessions')
+            .update({ last_seen_at: new Date().toISOString() })
+            .eq('id', session.id)
+    }
+
+    return { id: session.id, user_id: session.user_id }
+}
+
+// Personal API token scopes: <area>:<read|write>; write implies read
+export const API_TOKEN_SCOPES = [
+    'academics:read', 'academics:write',
+    'essays:read', 'essays:write',
+    'tasks:read', 'tasks:write',
+    'schedules:read'
+] as const
+
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number]
+
+// First path segment after /api -> token scope area. Anything else (notably
+// /api/auth, so a token can't mint tokens or delete the account) is cookie-only.
+const TOKEN_AREAS: Record<string, string> = {
+    academics: 'academics',
+    essays: 'essays',
+    tasks: 'tasks',
+    goals: 'tasks',
+    schedules: 'schedules'
+}
+
+/**
+ * Scope a token needs for this route: area from the URL, read for GET/HEAD, write otherwise
+ */
+function requiredScope(request: FastifyRequest): string | null {
+    const url = request.routeOptions.url ?? request.url
+    const area = TOKEN_AREAS[url.split('?')[0]!.split('/')[2] ?? '']
+    if (!area) {
+        return null
+    }
+    return `${area}:${request.method === 'GET' || request.method === 'HEAD' ? 'read' : 'write'}`
+}
+
+function hasScope(scopes: string[], needed: string): boolean {
+    return scopes.includes(needed) || (needed.endsWith(':read') && scopes.includes(needed.replace(/:read$/, ':write')))
+}
+
+/**
+ * Bearer token from the Authorization header, if any
+ */
+function getBearerToken(request: FastifyRequest): string | null {
+    const header = request.headers.authorization
+    const match = header?.match(/^Bearer\s+(\S+)$/i)
+    return match ? match[1]! : null
+}
+
+/**
+ * Verify a personal API token and get its ID, user ID and scopes
+ */
+async function verifyApiToken(token: string): Promise<{ id: string; user_id: string; scopes: string[] } | null> {
+    const { data: apiToken, error } = await supabase
+        .schema('core')
+        .from('api_tokens')
+        .select('id, user_id, scopes, expires_at, revoked_at, last_used_at')
+        .eq('token_hash', createHash('sha256').update(token).digest('hex'))
+        .maybeSingle()
+
+    if (error || !apiToken || apiToken.revoked_at || new Date(apiToken.expires_at) < new Date()) {
+        return null
+    }
+
+    const lastUsed = apiToken.last_used_at ? Date.parse(apiToken.last_used_at) : 0
+    if (Date.now() - lastUsed > LAST_SEEN_INTERVAL_MS) {
+        await supabase
+            .schema('core')
+            .from('api_tokens')
+            .update({ last_used_at: new Date().toISOString() })
+            .eq('id', apiToken.id)
+    }
+
+    return { id: apiToken.id, user_id: apiToken.user_id, scopes: apiToken.scopes || [] }
+}
+
+/**
+ * Authenticate with a Bearer token and check it covers this route
+ * Returns an error (status + message) or null on success
+ */
+async function authenticateApiToken(
+    request: FastifyRequest,
+    token: string
+): Promise<{ status: number; error: string } | null> {
+    const apiToken = await verifyApiToken(token)
+    if (!apiToken) {
+        return { status: 401, error: 'Invalid or expired API token' }
+    }
+
+    const needed = requiredScope(request)
+    if (!needed) {
+        return { status: 403, error: 'This endpoint does not accept API tokens' }
+    }
+    if (!hasScope(apiToken.scopes, needed)) {
+        return { status: 403, error: `API token is missing the ${needed} scope` }
+    }
+
+    request.userId = apiToken.user_id
+    request.apiTokenId = apiToken.id
+    return null
 }
 
 /**
  * Authentication preHandler
  * Use this as a preHandler on routes that require authentication
- * Parses session token from cookies, validates it, and attaches userId to request
- * Returns 401 if authentication fails
+ * Accepts the session cookie or a personal API token (Authorization: Bearer),
+ * whose scopes must cover the route; attaches userId to request
+ * Returns 401 if authentication fails, 403 if the token lacks the scope
  */
 export async function requireAuth(
     request: FastifyRequest,
@@ -52,6 +169,21 @@ export async function requireAuth(
 ): Promise<void> {
     // Initialize userId
     request.userId = null
+    request.sessionId = null
+    request.apiTokenId = null
+
+    const bearer = getBearerToken(request)
+    if (bearer) {
+        try {
+            const failure = await authenticateApiToken(request, bearer)
+            if (failure) {
+                reply.status(failure.status).send({ error: failure.error })
+            }
+        } catch (error) {
+            reply.status(401).send({ error: 'Authentication failed' })
+        }
+        return
+    }
 
     // Extract session token from cookie
     const token = request.cookies?.session_token
@@ -63,14 +195,15 @@ export async function requireAuth(
 
     // Verify token and get user ID
     try {
-        const userId = await verifySessionToken(token)
+        const session = await verifySessionToken(token)
         
-        if (!userId) {
+        if (!session) {
             reply.status(401).send({ error: 'Invalid or expired session' })
             return
         }
 
-        request.userId = userId
+        request.userId = session.user_id
+        request.sessionId = session.id
     } catch (error) {
         reply.status(401).send({ error: 'Authentication failed' })
         return
@@ -88,6 +221,23 @@ export async function optionalAuth(
 ): Promise<void> {
     // Initialize userId
     request.userId = null
+    request.sessionId = null
+    request.apiTokenId = null
+
+    // A bad or under-scoped token just means anonymous here
+    const bearer = getBearerToken(request)
+    if (bearer) {
+        try {
+            if (await authenticateApiToken(request, bearer)) {
+                request.userId = null
+                request.apiTokenId = null
+            }
+        } catch (error) {
+            request.userId = null
+            request.apiTokenId = null
+        }
+        return
+    }
 
     // Extract session token from cookie
     const token = request.cookies?.session_token
@@ -99,11 +249,175 @@ export async function optionalAuth(
 
     // Verify token and get user ID
     try {
-        const userId = await verifySessionToken(token)
-        request.userId = userId || null
+        const session = await verifySessionToken(token)
+        request.userId = session?.user_id || null
+        request.sessionId = session?.id || null
     } catch (error) {
         // If verification fails, just keep userId as null
         request.userId = null
+        request.sessionId = null
+    }
+}
+
+/**
+ * Admin preHandler
+ * Use after requireAuth on routes that only platform admins may call
+ * Returns 403 if the signed-in user is not an admin
+ */
+export async function requireAdmin(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<void> {
+    if (!request.userId) {
+        reply.status(401).send({ error: 'Not authenticated' })
+        return
+    }
+
+    const { data: user, error } = await supabase
+        .schema('core')
+        .from('users')
+        .select('is_admin')
+        .eq('id', request.userId)
+        .single()
+
+    if (error || !user?.is_admin) {
+        reply.status(403).send({ error: 'Admin access required' })
+        return
     }
 }
 
+/**
+ * Verified email preHandler
+ * Use after requireAuth on sensitive routes (e.g. sharing) that need a confirmed email address
+ * Returns 403 if the signed-in user hasn't verified their email
+ */
+export async function requireVerified(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<void> {
+    if (!request.userId) {
+        reply.status(401).send({ error: 'Not authenticated' })
+        return
+    }
+
+    const { data: user, error } = await supabase
+        .schema('core')
+        .from('users')
+        .select('email_verified_at')
+        .eq('id', request.userId)
+        .single()
+
+    if (error || !user?.email_verified_at) {
+        reply.status(403).send({ error: 'Email verification required' })
+        return
+    }
+}
+
+export type UserRole = 'student' | 'counselor' | 'parent' | 'school_admin'
+
+// Areas of a student's data, and which linked roles may read each
+export type StudentArea = 'academics' | 'essays' | 'tasks'
+
+const LINK_PERMISSIONS: Record<'counselor' | 'parent', StudentArea[]> = {
+    counselor: ['academics', 'essays', 'tasks'],
+    parent: ['academics', 'tasks']
+}
+
+/**
+ * Role preHandler factory
+ * Use after requireAuth, e.g. requireRole('counselor', 'parent')
+ * Returns 403 if the signed-in user has none of the roles
+ */
+export function requireRole(...roles: UserRole[]) {
+    return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        if (!request.userId) {
+            reply.status(401).send({ error: 'Not authenticated' })
+            return
+        }
+
+        const { data: user, error } = await supabase
+            .schema('core')
+            .from('users')
+            .select('role')
+            .eq('id', request.userId)
+            .single()
+
+        if (error || !user || !roles.includes(user.role)) {
+            reply.status(403).send({ error: 'Insufficient permissions' })
+            return
+        }
+    }
+}
+
+/**
+ * Linked student preHandler factory
+ * Use after requireAuth on read-only routes with a :studentId param
+ * Allows the student themself, or a counselor/parent with an accepted link
+ * whose relationship covers the area; returns 403 otherwise
+ */
+export function requireStudentAccess(area: StudentArea) {
+    return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        if (!request.userId) {
+            reply.status(401).send({ error: 'Not authenticated' })
+            return
+        }
+
+        const { studentId } = request.params as { studentId?: string }
+        if (!studentId) {
+            reply.status(400).send({ error: 'Missing student ID' })
+            return
+        }
+
+        if (studentId === request.userId) {
+            request.studentAccess = 'self'
+            return
+        }
+
+        const { data: link, error } = await supabase
+            .schema('core')
+            .from('user_links')
+            .select('relationship')
+            .eq('student_id', studentId)
+            .eq('guardian_id', request.userId)
+            .eq('status', 'accepted')
+            .maybeSingle()
+
+        if (error || !link || !LINK_PERMISSIONS[link.relationship as 'counselor' | 'parent']?.includes(area)) {
+            reply.status(403).send({ error: 'No access to this student' })
+            return
+        }
+
+        request.studentAccess = link.relationship
+    }
+}
+
+/**
+ * School admin preHandler
+ * Use after requireAuth on routes with a :schoolId param
+ * Allows school admins of that school (and platform admins); returns 403 otherwise
+ */
+export async function requireSchoolAdmin(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<void> {
+    if (!request.userId) {
+        reply.status(401).send({ error: 'Not authenticated' })
+        return
+    }
+
+    const { schoolId } = request.params as { schoolId?: string }
+
+    const { data: user, error } = await supabase
+        .schema('core')
+        .from('users')
+        .select('role, school_id, is_admin')
+        .eq('id', request.userId)
+        .single()
+
+    const allowed = !!user && (user.is_admin || (user.role === 'school_admin' && !!schoolId && user.school_id === schoolId))
+
+    if (error || !allowed) {
+        reply.status(403).send({ error: 'School admin access required' })
+        return
+    }
+}
@@ -0,0 +1,116 @@
+import type { FastifyReply, FastifyRequest } from "fastify"
+import type { CookieSerializeOptions } from "@fastify/cookie"
+import { randomBytes, timingSafeEqual } from "crypto"
+import env from "../config/env"
+
+// The readable session_token_check cookie doubles as the CSRF token: the
+// frontend copies it into this header, which another site can't read or set
+export const CSRF_HEADER = 'x-csrf-token'
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+// Routes that never act on the current session, so a stale cookie mustn't block them
+const EXEMPT_ROUTES = new Set([
+    '/api/auth/signin',
+    '/api/auth/signup',
+    '/api/auth/signin/mfa',
+    '/api/auth/password/forgot',
+    '/api/auth/password/reset',
+    '/api/auth/verify-email'
+])
+
+/**
+ * Origins allowed to make credentialed requests (CORS_ORIGINS, else APP_URL)
+ */
+export const allowedOrigins: string[] = (env.CORS_ORIGINS || env.APP_URL)
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean)
+
+export function isAllowedOrigin(origin: string): boolean {
+    return allowedOrigins.includes(origin.replace(/\/$/, ''))
+}
+
+/**
+ * New random value for the session_token_check cookie
+ */
+export function createCsrfToken(): string {
+    return randomBytes(32).toString('base64url')
+}
+
+/**
+ * Options for the session_token_check cookie. Readable by the frontend (it
+ * echoes the value as the CSRF header), so never httpOnly. Every place that
+ * sets or clears the cookie uses these, so the definitions can't drift apart.
+ */
+export function csrfCookieOptions(): CookieSerializeOptions {
+    return {
+        httpOnly: false,
+        secure: false,
+        sameSite: 'lax',
+        maxAge: 15552000, // 180 days
+        path: '/',
+        ...(env.COOKIE_DOMAIN ? { domain: env.COOKIE_DOMAIN } : {})
+    }
+}
+
+/**
+ * Issue a fresh CSRF token in the session_token_check cookie
+ */
+export function setCsrfCookie(reply: FastifyReply) {
+    reply.setCookie('session_token_check', createCsrfToken(), csrfCookieOptions())
+}
+
+/**
+ * Remove the session_token_check cookie
+ */
+export function clearCsrfCookie(reply: FastifyReply) {
+    const { maxAge: _maxAge, ...options } = csrfCookieOptions()
+    reply.clearCookie('session_token_check', options)
+}
+
+function tokensMatch(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * CSRF onRequest hook
+ * For cookie-authenticated requests with an unsafe method: the Origin (when
+ * sent) must be allowlisted and the X-CSRF-Token header must match the
+ * session_token_check cookie. Bearer-token requests carry no ambient
+ * credentials and are exempt. Returns 403 on failure.
+ */
+export async function csrfProtection(
+    request: FastifyRequest,
+    reply: FastifyReply
+): Promise<void> {
+    const session = request.cookies?.session_token
+    if (!session || request.headers.authorization?.match(/^Bearer\s/i) || EXEMPT_ROUTES.has(request.routeOptions.url ?? '')) {
+        return
+    }
+
+    // Sessions from before CSRF tokens have the placeholder "true"; give them a real token
+    const cookieToken = request.cookies.session_token_check
+    const hasRealToken = !!cookieToken && cookieToken !== 'true'
+    if (!hasRealToken) {
+        setCsrfCookie(reply)
+    }
+
+    if (SAFE_METHODS.has(request.method)) {
+        return
+    }
+
+    const origin = request.headers.origin
+    if (origin && !isAllowedOrigin(origin)) {
+        reply.status(403).send({ error: 'Origin not allowed' })
+        return
+    }
+
+    const headerToken = request.headers[CSRF_HEADER]
+    if (!hasRealToken || typeof headerToken !== 'string' || !tokensMatch(headerToken, cookieToken!)) {
+        reply.status(403).send({ error: 'Invalid or missing CSRF token' })
+        return
+    }
+}
@@ -0,0 +1,87 @@
+import type { FastifyReply, FastifyRequest } from "fastify"
+import { limiter, type LockoutPolicy, type RateLimitResult } from "../lib/limiter"
+
+/**
+ * One sliding-window limit. `key` returns what to count by (IP, email...),
+ * or null to skip the rule for this request.
+ */
+export interface RateLimitRule {
+    name: string
+    limit: number
+    windowMs: number
+    key: (request: FastifyRequest) => string | null
+}
+
+/**
+ * RateLimit-* headers (IETF draft) for the most constrained rule
+ */
+function setRateLimitHeaders(reply: FastifyReply, result: RateLimitResult) {
+    reply.header('RateLimit-Limit', result.limit)
+    reply.header('RateLimit-Remaining', result.remaining)
+    reply.header('RateLimit-Reset', Math.ceil(result.resetMs / 1000))
+}
+
+function tooManyRequests(reply: FastifyReply, retryAfterMs: number, error: string) {
+    reply.header('Retry-After', Math.max(1, Math.ceil(retryAfterMs / 1000)))
+    reply.status(429).send({ error })
+}
+
+/**
+ * Rate limit preHandler
+ * Counts the request against every rule and returns 429 with Retry-After once any is exceeded
+ */
+export function rateLimit(rules: RateLimitRule[]) {
+    return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        let tightest: RateLimitResult | null = null
+
+        for (const rule of rules) {
+            const key = rule.key(request)
+            if (!key) continue
+
+            const result = await limiter.consume(`${rule.name}:${key}`, rule.limit, rule.windowMs)
+            if (!tightest || result.remaining < tightest.remaining) {
+                tightest = result
+            }
+            if (!result.allowed) {
+                setRateLimitHeaders(reply, result)
+                tooManyRequests(reply, result.resetMs, 'Too many requests, please try again later')
+                return
+            }
+        }
+
+        if (tightest) {
+            setRateLimitHeaders(reply, tightest)
+        }
+    }
+}
+
+/**
+ * Lockout preHandler
+ * Returns 429 while the key (e.g. the email being signed in to) is locked out by recordFailure
+ */
+export function lockout(name: string, key: (request: FastifyRequest) => string | null) {
+    return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+        const value = key(request)
+        if (!value) return
+
+        const lockedForMs = await limiter.lockedFor(`${name}:${value}`)
+        if (lockedForMs > 0) {
+            tooManyRequests(reply, lockedForMs, 'Too many failed attempts, please try again later')
+            return
+        }
+    }
+}
+
+/**
+ * Count a failed attempt toward the lockout for a key; returns the lock length in ms
+ */
+export function recordFailure(name: string, value: string, policy: LockoutPolicy): Promise<number> {
+    return limiter.recordFailure(`${name}:${value}`, policy)
+}
+
+/**
+ * Forget failed attempts after a success
+ */
+export function clearFailures(name: string, value: string): Promise<void> {
+    return limiter.clearFailures(`${name}:${value}`)
+}
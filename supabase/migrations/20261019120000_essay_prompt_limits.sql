@@ -0,0 +1,4 @@
+-- word/character limits surfaced on user essays and the analysis endpoint
+alter table essays.essay_prompts
+    add column if not exists word_limit integer check (word_limit > 0),
+    add column if not exists character_limit integer check (character_limit > 0);
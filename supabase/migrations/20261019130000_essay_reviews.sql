@@ -0,0 +1,34 @@
+-- review shares: one row per invited reviewer or share link
+create table if not exists essays.essay_shares (
+    id uuid primary key default gen_random_uuid(),
+    essay_id uuid not null references essays.user_essays(id) on delete cascade,
+    owner_id uuid not null references core.users(id) on delete cascade,
+    token_hash text not null unique,
+    reviewer_email text,
+    reviewer_id uuid references core.users(id) on delete set null,
+    expires_at timestamptz not null,
+    completed_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists essay_shares_essay_id_idx on essays.essay_shares (essay_id);
+
+-- comment threads anchored to character ranges of the essay's plain text
+create table if not exists essays.essay_comments (
+    id uuid primary key default gen_random_uuid(),
+    essay_id uuid not null references essays.user_essays(id) on delete cascade,
+    share_id uuid references essays.essay_shares(id) on delete set null,
+    author_id uuid not null references core.users(id) on delete cascade,
+    parent_id uuid references essays.essay_comments(id) on delete cascade,
+    range_start integer check (range_start >= 0),
+    range_end integer check (range_end > range_start),
+    quote text,
+    body text not null,
+    resolved_at timestamptz,
+    resolved_by uuid references core.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists essay_comments_essay_id_idx on essays.essay_comments (essay_id);
@@ -0,0 +1,27 @@
+-- platform admins moderate the example essay library
+alter table core.users
+    add column if not exists is_admin boolean not null default false;
+
+-- student submissions and moderation state for example essays
+alter table essays.example_essays
+    add column if not exists downvotes integer not null default 0,
+    add column if not exists moderation_status text not null default 'approved'
+        check (moderation_status in ('pending', 'approved', 'rejected')),
+    add column if not exists moderation_note text,
+    add column if not exists moderated_by uuid references core.users(id) on delete set null,
+    add column if not exists moderated_at timestamptz,
+    add column if not exists is_anonymized boolean not null default false,
+    add column if not exists submitted_by uuid references core.users(id) on delete set null,
+    add column if not exists source_essay_id uuid references essays.user_essays(id) on delete set null;
+
+create index if not exists example_essays_moderation_idx on essays.example_essays (moderation_status, created_at);
+
+-- one vote per user per example
+create table if not exists essays.example_essay_votes (
+    example_essay_id uuid not null references essays.example_essays(id) on delete cascade,
+    user_id uuid not null references core.users(id) on delete cascade,
+    value smallint not null check (value in (-1, 1)),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    primary key (example_essay_id, user_id)
+);
@@ -0,0 +1,7 @@
+-- last activity per session, so students can spot devices they forgot to sign out of
+alter table core.sessions
+    add column if not exists last_seen_at timestamptz;
+
+update core.sessions set last_seen_at = created_at where last_seen_at is null;
+
+create index if not exists sessions_user_id_idx on core.sessions (user_id, last_seen_at desc);
@@ -0,0 +1,11 @@
+-- single-use password reset tokens; only the sha256 hash of the emailed token is stored
+create table if not exists core.password_reset_tokens (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    token_hash text not null unique,
+    expires_at timestamptz not null,
+    used_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists password_reset_tokens_user_id_idx on core.password_reset_tokens (user_id);
@@ -0,0 +1,18 @@
+-- email verification on signup
+alter table core.users
+    add column if not exists email_verified_at timestamptz;
+
+-- accounts created before verification existed are trusted as-is
+update core.users set email_verified_at = created_at where email_verified_at is null;
+
+-- only the sha256 hash of the emailed token is stored
+create table if not exists core.email_verification_tokens (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    token_hash text not null unique,
+    expires_at timestamptz not null,
+    used_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists email_verification_tokens_user_id_idx on core.email_verification_tokens (user_id);
@@ -0,0 +1,30 @@
+-- sign in with OAuth/OIDC providers (Google first)
+
+-- accounts created through a provider have no password until they reset one
+alter table core.users
+    alter column password_hash drop not null;
+
+-- provider identities linked to a user
+create table if not exists core.oauth_accounts (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    provider text not null,
+    subject text not null,
+    email text not null,
+    created_at timestamptz not null default now(),
+    last_used_at timestamptz,
+    unique (provider, subject)
+);
+
+create index if not exists oauth_accounts_user_id_idx on core.oauth_accounts (user_id);
+
+-- in-flight authorization requests (state, PKCE verifier, nonce), single use
+create table if not exists core.oauth_states (
+    state_hash text primary key,
+    provider text not null,
+    code_verifier text not null,
+    nonce text not null,
+    redirect_to text,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
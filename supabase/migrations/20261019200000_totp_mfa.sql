@@ -0,0 +1,27 @@
+-- optional TOTP two-factor authentication
+alter table core.users
+    add column if not exists totp_secret_encrypted text,         -- AES-GCM, see src/lib/encryption.ts
+    add column if not exists totp_pending_secret_encrypted text, -- enrolled but not yet confirmed
+    add column if not exists totp_enabled_at timestamptz,
+    add column if not exists totp_last_used_step bigint;         -- a code is never accepted twice
+
+-- one-time recovery codes, bcrypt hashed
+create table if not exists core.mfa_recovery_codes (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    code_hash text not null,
+    used_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists mfa_recovery_codes_user_id_idx on core.mfa_recovery_codes (user_id);
+
+-- short-lived "password ok, second factor pending" sign in state
+create table if not exists core.mfa_challenges (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    token_hash text not null unique,
+    attempts integer not null default 0,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
@@ -0,0 +1,7 @@
+-- account deletion with a grace period; signing in again before the date cancels it
+alter table core.users
+    add column if not exists deletion_requested_at timestamptz,
+    add column if not exists deletion_scheduled_for timestamptz;
+
+create index if not exists users_deletion_scheduled_for_idx on core.users (deletion_scheduled_for)
+    where deletion_scheduled_for is not null;
@@ -0,0 +1,24 @@
+-- roles: students own data; counselors and parents see linked students; school admins run their school
+alter table core.users
+    add column if not exists role text not null default 'student'
+        check (role in ('student', 'counselor', 'parent', 'school_admin'));
+
+-- student <-> counselor/parent links, created by invite and accepted by the other side
+create table if not exists core.user_links (
+    id uuid primary key default gen_random_uuid(),
+    student_id uuid references core.users(id) on delete cascade,  -- null until a student accepts
+    guardian_id uuid references core.users(id) on delete cascade, -- counselor or parent; null until accepted
+    relationship text not null check (relationship in ('counselor', 'parent')),
+    status text not null default 'pending' check (status in ('pending', 'accepted', 'revoked')),
+    invited_by uuid not null references core.users(id) on delete cascade,
+    invite_email text not null,
+    token_hash text unique,
+    expires_at timestamptz not null,
+    accepted_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists user_links_student_id_idx on core.user_links (student_id) where status = 'accepted';
+create index if not exists user_links_guardian_id_idx on core.user_links (guardian_id) where status = 'accepted';
+create unique index if not exists user_links_pair_idx on core.user_links (student_id, guardian_id) where status = 'accepted';
@@ -0,0 +1,15 @@
+-- personal API tokens (Authorization: Bearer); only the sha256 hash is stored
+create table if not exists core.api_tokens (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    name text not null,
+    token_hash text not null unique,
+    token_prefix text not null,  -- first characters, so users can tell tokens apart
+    scopes text[] not null default '{}',
+    expires_at timestamptz not null,
+    last_used_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists api_tokens_user_id_idx on core.api_tokens (user_id);
@@ -0,0 +1,3 @@
+-- each school's IANA timezone, so "today" is the school's today and not the server's (UTC)
+alter table core.schools
+    add column if not exists timezone text not null default 'America/New_York';
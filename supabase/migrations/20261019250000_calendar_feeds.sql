@@ -0,0 +1,15 @@
+-- subscribable iCalendar feeds of a school's bell schedule, labeled with the
+-- owner's classes; the URL token is the only credential, so only its sha256 hash is stored
+create table if not exists core.calendar_feeds (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references core.users(id) on delete cascade,
+    school_id uuid not null,
+    token_hash text not null unique,
+    token_prefix text not null,  -- first characters, so users can tell feeds apart
+    lookahead_days integer not null default 60 check (lookahead_days between 1 and 366),
+    last_accessed_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists calendar_feeds_user_id_idx on core.calendar_feeds (user_id);
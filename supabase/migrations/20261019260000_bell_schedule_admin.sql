@@ -0,0 +1,54 @@
+-- school-admin editing of bell schedule templates and the school calendar
+
+-- Templates created from now on belong to a school; existing rows stay shared (null)
+alter table core.bell_schedules
+    add column if not exists school_id uuid,
+    add column if not exists created_at timestamptz not null default now(),
+    add column if not exists updated_at timestamptz not null default now();
+
+create index if not exists bell_schedules_school_id_idx on core.bell_schedules (school_id);
+
+-- A day with no bell schedule is a declared day off; note says why ("Thanksgiving")
+alter table core.bell_schedule_days
+    alter column bell_schedule_id drop not null,
+    add column if not exists note text,
+    add column if not exists created_at timestamptz not null default now();
+
+-- Nothing kept days unique before, and nothing records which duplicate is
+-- newer: the old lookup used .single(), which errored on duplicates rather
+-- than serving one. Which row survives is therefore arbitrary (the lowest id);
+-- the others are kept in bell_schedule_days_removed so admins can check those dates.
+create table if not exists core.bell_schedule_days_removed as
+select d.*
+from core.bell_schedule_days d
+where exists (
+    select 1 from core.bell_schedule_days other
+    where other.school_id = d.school_id and other.day = d.day and other.id < d.id
+);
+
+delete from core.bell_schedule_days d
+using core.bell_schedule_days_removed removed
+where d.id = removed.id;
+
+-- One entry per school per date, so bulk assignment can upsert
+create unique index if not exists bell_schedule_days_school_day_idx on core.bell_schedule_days (school_id, day);
+
+-- Initials used by the public /:schoolInitials routes, set by school admins;
+-- unique regardless of case so a URL finds exactly one school
+alter table core.schools
+    add column if not exists initials text;
+
+-- Backfill from day rows, but only initials exactly one school used: the old
+-- lookup picked an arbitrary school for shared ones, so those wait for an admin
+update core.schools s
+set initials = d.school_initials
+from (
+    select min(school_initials) as school_initials, min(school_id::text)::uuid as school_id
+    from core.bell_schedule_days
+    where school_initials is not null
+    group by lower(school_initials)
+    having count(distinct school_id) = 1
+) d
+where s.id = d.school_id and s.initials is null;
+
+create unique index if not exists schools_initials_idx on core.schools (lower(initials));
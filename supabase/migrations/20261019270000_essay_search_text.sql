@@ -0,0 +1,19 @@
+-- plain text of essay HTML, so search can filter in Postgres with the same
+-- word-prefix regex the API uses to rank and highlight
+create or replace function essays.html_to_search_text(html text) returns text
+language sql immutable as $$
+    select replace(replace(replace(replace(replace(replace(
+        regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'),
+        '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''), '&amp;', '&')
+$$;
+
+-- PostgREST computed fields: filterable as search_text, but left out of select=*
+create or replace function essays.search_text(essays.user_essays) returns text
+language sql immutable as $$
+    select essays.html_to_search_text($1.content)
+$$;
+
+create or replace function essays.search_text(essays.essay_versions) returns text
+language sql immutable as $$
+    select essays.html_to_search_text($1.content)
+$$;
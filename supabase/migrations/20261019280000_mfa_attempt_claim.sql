@@ -0,0 +1,12 @@
+-- count a 2FA code attempt atomically: parallel guesses each use one up, and
+-- nothing comes back once the challenge is out of attempts or expired
+create or replace function core.claim_mfa_attempt(p_token_hash text, p_max_attempts integer)
+returns table (id uuid, user_id uuid)
+language sql as $$
+    update core.mfa_challenges c
+    set attempts = c.attempts + 1
+    where c.token_hash = p_token_hash
+      and c.attempts < p_max_attempts
+      and c.expires_at > now()
+    returning c.id, c.user_id
+$$;
@@ -0,0 +1,6 @@
+-- net vote score, so example essays rank by upvotes minus downvotes
+alter table essays.example_essays
+    add column if not exists score integer
+        generated always as (upvotes - downvotes) stored;
+
+create index if not exists example_essays_prompt_score_idx on essays.example_essays (prompt_id, score desc, created_at desc);